@@ -0,0 +1,18 @@
+import { notFound, redirect } from "next/navigation";
+import AdminConsole from "@/components/AdminConsole";
+import { hasRole } from "@/lib/roles";
+import { getSessionUser } from "@/lib/session";
+
+// The middleware only knows a session cookie exists; the role is checked here on the server
+export default async function AdminPage() {
+    const user = await getSessionUser();
+    if (!user) redirect("/auth/signin?callbackUrl=/admin");
+    if (!hasRole(user.role, "admin")) notFound();
+
+    return <AdminConsole currentUserId={user.id} />;
+}
+
+export const metadata = {
+    title: "Admin - PrepForge",
+    description: "Manage users and monitor interview activity",
+};
@@ -18,82 +18,28 @@ import {
     Legend,
     ResponsiveContainer,
 } from "recharts";
-
-interface PerformanceData {
-    date: string;
-    averageRelevance: number;
-    averageClarity: number;
-    averageDepth: number;
-    averageOverall: number;
-    questionsAnswered: number;
-}
-
-interface WeakArea {
-    type?: string;
-    category?: string;
-    averageScore: number;
-    count: number;
-}
-
-interface SkillProgression {
-    behavioral: number;
-    technical: number;
-    situational: number;
-    communication: number;
-}
-
-interface UserStats {
-    totalInterviews: number;
-    totalAnswers: number;
-    averageScore: number;
-    currentStreak: number;
-}
-
-interface Analytics {
-    performanceOverTime: PerformanceData[];
-    weakAreas: {
-        weakTypes: WeakArea[];
-        weakCategories: WeakArea[];
-    };
-    skillProgression: SkillProgression;
-    userStats: UserStats;
-}
+import { Analytics, AnalyticsResponse } from "@/lib/apiTypes";
 
 export default function AnalyticsPage() {
-    const { data: session, status } = useSession();
+    // The middleware keeps signed-out visitors away; this catches sessions that expire here
+    const { data: session, status } = useSession({ required: true });
     const [analytics, setAnalytics] = useState<Analytics | null>(null);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
 
+    const userId = session?.user?.id;
+
     useEffect(() => {
         const fetchAnalytics = async () => {
-            if (status === "authenticated" && session?.user?.email) {
+            if (status === "authenticated" && userId) {
                 try {
                     setLoading(true);
-                    const backendUrl = process.env.NEXT_PUBLIC_API_URL || "http://localhost:5002";
-
-                    // First get user ID
-                    const userRes = await fetch(
-                        `${backendUrl}/api/db/users/by-email/${session.user.email}`
-                    );
-                    if (!userRes.ok) {
-                        throw new Error("Failed to fetch user profile.");
-                    }
-                    const userData = await userRes.json();
-
-                    if (!userData.success || !userData.user) {
-                        throw new Error("User not found");
-                    }
-
-                    // Fetch analytics
-                    const analyticsRes = await fetch(
-                        `${backendUrl}/api/analytics/${userData.user.id}`
-                    );
+                    const analyticsRes = await fetch(`/api/analytics/${userId}`);
                     if (!analyticsRes.ok) {
                         throw new Error("Failed to fetch analytics");
                     }
 
-                    const analyticsData = await analyticsRes.json();
+                    const analyticsData: AnalyticsResponse = await analyticsRes.json();
                     setAnalytics(analyticsData.analytics);
                     setError(null);
                 } catch (err) {
@@ -107,7 +53,7 @@ export default function AnalyticsPage() {
         };
 
         fetchAnalytics();
-    }, [status, session]);
+    }, [status, userId]);
 
     if (status === "loading" || loading) {
         return (
@@ -117,21 +63,6 @@ export default function AnalyticsPage() {
         );
     }
 
-    if (status === "unauthenticated") {
-        return (
-            <div className="flex flex-col justify-center items-center min-h-screen bg-gray-50">
-                <h1 className="text-2xl font-bold text-gray-800 mb-4">Access Denied</h1>
-                <p className="text-gray-600 mb-6">Please sign in to view your analytics.</p>
-                <Link
-                    href="/api/auth/signin"
-                    className="px-6 py-2 bg-blue-600 text-white rounded-lg shadow hover:bg-blue-700 transition-colors"
-                >
-                    Sign In
-                </Link>
-            </div>
-        );
-    }
-
     if (error) {
         return (
             <div className="flex flex-col justify-center items-center min-h-screen bg-red-50 text-red-700">
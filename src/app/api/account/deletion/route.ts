@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { DELETION_CONFIRMATION, deletionDate } from "@/lib/accountDeletion";
+import { prisma } from "@/lib/prisma";
+import { getSessionUser, unauthorizedResponse } from "@/lib/session";
+import { AccountDeletionResponse } from "@/lib/apiTypes";
+
+function deletionResponse(scheduledFor: Date | null) {
+    const data: AccountDeletionResponse = { scheduledFor: scheduledFor?.toISOString() ?? null };
+    return NextResponse.json(data);
+}
+
+export async function GET() {
+    const user = await getSessionUser();
+    if (!user) return unauthorizedResponse();
+
+    try {
+        const row = await prisma.user.findUnique({ where: { id: user.id } });
+        return deletionResponse(row?.deletionScheduledAt ?? null);
+    } catch (error) {
+        console.error("Failed to read account deletion:", error);
+        return NextResponse.json({ error: "Failed to read account deletion" }, { status: 500 });
+    }
+}
+
+// Schedules deletion at the end of the grace period. Body: { confirmation: "DELETE" }
+export async function POST(request: NextRequest) {
+    const user = await getSessionUser();
+    if (!user) return unauthorizedResponse();
+
+    let body;
+    try {
+        body = (await request.json()) ?? {};
+    } catch {
+        return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 });
+    }
+
+    try {
+        const { confirmation } = body;
+        if (confirmation !== DELETION_CONFIRMATION) {
+            return NextResponse.json(
+                { error: `Type ${DELETION_CONFIRMATION} to confirm` },
+                { status: 400 }
+            );
+        }
+
+        const row = await prisma.user.update({
+            where: { id: user.id },
+            data: { deletionScheduledAt: deletionDate() },
+        });
+        return deletionResponse(row.deletionScheduledAt);
+    } catch (error) {
+        console.error("Failed to schedule account deletion:", error);
+        return NextResponse.json({ error: "Failed to schedule account deletion" }, { status: 500 });
+    }
+}
+
+// Cancels a scheduled deletion
+export async function DELETE() {
+    const user = await getSessionUser();
+    if (!user) return unauthorizedResponse();
+
+    try {
+        await prisma.user.update({
+            where: { id: user.id },
+            data: { deletionScheduledAt: null },
+        });
+        return deletionResponse(null);
+    } catch (error) {
+        console.error("Failed to cancel account deletion:", error);
+        return NextResponse.json({ error: "Failed to cancel account deletion" }, { status: 500 });
+    }
+}
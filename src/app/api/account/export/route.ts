@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { backendErrorResponse, backendJson } from "@/lib/backend";
+import { registerBackendUser } from "@/lib/backendUsers";
+import { prisma } from "@/lib/prisma";
+import { loadResume } from "@/lib/resumeStore";
+import { parseRole } from "@/lib/roles";
+import { getSessionUser, unauthorizedResponse } from "@/lib/session";
+import { AccountExport, BackendAccountData } from "@/lib/apiTypes";
+
+// Profile and linked sign-in methods from our database, interviews and bookmarks from the
+// backend. Recordings never leave the browser, so the settings page adds those itself.
+export async function GET() {
+    const user = await getSessionUser();
+    if (!user) return unauthorizedResponse();
+
+    try {
+        const [profile, resume, backendData] = await Promise.all([
+            prisma.user.findUnique({
+                where: { id: user.id },
+                include: { accounts: { select: { provider: true } } },
+            }),
+            loadResume(user.id),
+            // Registered first, so an account the backend hasn't seen exports empty lists
+            registerBackendUser().then(() =>
+                backendJson<BackendAccountData>("/api/db/users/me/export")
+            ),
+        ]);
+        if (!profile) {
+            return NextResponse.json({ error: "User not found" }, { status: 404 });
+        }
+
+        const data: AccountExport = {
+            exportedAt: new Date().toISOString(),
+            profile: {
+                id: profile.id,
+                name: profile.name,
+                email: profile.email,
+                image: profile.image,
+                role: parseRole(profile.role),
+                createdAt: profile.createdAt.toISOString(),
+                linkedProviders: profile.accounts.map((a: { provider: string }) => a.provider),
+            },
+            resume,
+            interviews: backendData.interviews,
+            bookmarks: backendData.bookmarks,
+        };
+        return NextResponse.json(data);
+    } catch (error) {
+        return backendErrorResponse(error, "Failed to export account data");
+    }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { backendErrorResponse, backendJson } from "@/lib/backend";
+import { hasRole } from "@/lib/roles";
+import { forbiddenResponse, getSessionUser, unauthorizedResponse } from "@/lib/session";
+import { AdminActivityResponse } from "@/lib/apiTypes";
+
+// Recent interviews across all users and daily generation counts. The backend checks the
+// admin role in the identity token as well.
+export async function GET(request: NextRequest) {
+    const user = await getSessionUser();
+    if (!user) return unauthorizedResponse();
+    if (!hasRole(user.role, "admin")) return forbiddenResponse();
+
+    try {
+        const days = Number(request.nextUrl.searchParams.get("days")) || 14;
+
+        const data = await backendJson<AdminActivityResponse>(`/api/admin/activity?days=${days}`);
+        return NextResponse.json(data);
+    } catch (error) {
+        return backendErrorResponse(error, "Failed to fetch admin activity");
+    }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { hasRole, isRole } from "@/lib/roles";
+import { forbiddenResponse, getSessionUser, unauthorizedResponse } from "@/lib/session";
+import { toAdminUser } from "@/lib/adminUsers";
+import { AdminUserResponse } from "@/lib/apiTypes";
+
+// Changes a user's role or suspends them. Body: { role?: Role, suspended?: boolean }
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const admin = await getSessionUser();
+    if (!admin) return unauthorizedResponse();
+    if (!hasRole(admin.role, "admin")) return forbiddenResponse();
+
+    let body;
+    try {
+        body = (await request.json()) ?? {};
+    } catch {
+        return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 });
+    }
+
+    try {
+        const id = Number((await params).id);
+        const { role, suspended } = body;
+
+        if (role !== undefined && !isRole(role)) {
+            return NextResponse.json({ error: "Unknown role" }, { status: 400 });
+        }
+        if (suspended !== undefined && typeof suspended !== "boolean") {
+            return NextResponse.json({ error: "suspended must be a boolean" }, { status: 400 });
+        }
+        // Stops the last admin from locking everyone out by accident
+        if (id === admin.id) {
+            return NextResponse.json(
+                { error: "You can't change your own role or suspend yourself" },
+                { status: 400 }
+            );
+        }
+
+        const existing = Number.isInteger(id)
+            ? await prisma.user.findUnique({ where: { id } })
+            : null;
+        if (!existing) {
+            return NextResponse.json({ error: "User not found" }, { status: 404 });
+        }
+
+        const user = await prisma.user.update({
+            where: { id },
+            data: {
+                ...(role !== undefined ? { role } : {}),
+                ...(suspended !== undefined ? { suspendedAt: suspended ? new Date() : null } : {}),
+            },
+        });
+
+        // Database sessions end straight away; JWT sessions end on their next request
+        if (suspended) {
+            await prisma.session.deleteMany({ where: { userId: id } });
+        }
+
+        const data: AdminUserResponse = { user: toAdminUser(user) };
+        return NextResponse.json(data);
+    } catch (error) {
+        console.error("Failed to update user:", error);
+        return NextResponse.json({ error: "Failed to update user" }, { status: 500 });
+    }
+}
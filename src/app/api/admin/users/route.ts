@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { hasRole } from "@/lib/roles";
+import { forbiddenResponse, getSessionUser, unauthorizedResponse } from "@/lib/session";
+import { ADMIN_USERS_PAGE_SIZE, toAdminUser } from "@/lib/adminUsers";
+import { AdminUsersResponse } from "@/lib/apiTypes";
+
+export async function GET(request: NextRequest) {
+    const user = await getSessionUser();
+    if (!user) return unauthorizedResponse();
+    if (!hasRole(user.role, "admin")) return forbiddenResponse();
+
+    try {
+        const query = request.nextUrl.searchParams.get("q")?.trim();
+
+        const users = await prisma.user.findMany({
+            where: query
+                ? { OR: [{ email: { contains: query } }, { name: { contains: query } }] }
+                : undefined,
+            orderBy: { createdAt: "desc" },
+            take: ADMIN_USERS_PAGE_SIZE,
+        });
+
+        const data: AdminUsersResponse = { users: users.map(toAdminUser) };
+        return NextResponse.json(data);
+    } catch (error) {
+        console.error("Failed to list users:", error);
+        return NextResponse.json({ error: "Failed to list users" }, { status: 500 });
+    }
+}
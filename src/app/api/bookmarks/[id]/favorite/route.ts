@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { backendErrorResponse, backendJson } from "@/lib/backend";
+import { getSessionUser, unauthorizedResponse } from "@/lib/session";
+import { FavoriteResponse } from "@/lib/apiTypes";
+
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const user = await getSessionUser();
+    if (!user) return unauthorizedResponse();
+
+    try {
+        const { id } = await params;
+
+        const data = await backendJson<FavoriteResponse>(
+            `/api/bookmarks/${encodeURIComponent(id)}/favorite`,
+            { method: "PATCH" }
+        );
+        return NextResponse.json(data);
+    } catch (error) {
+        return backendErrorResponse(error, "Failed to update favorite");
+    }
+}
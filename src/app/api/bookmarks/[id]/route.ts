@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { backendErrorResponse, backendJson } from "@/lib/backend";
+import { getSessionUser, unauthorizedResponse } from "@/lib/session";
+import { DeleteBookmarkResponse } from "@/lib/apiTypes";
+
+export async function DELETE(
+    _request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const user = await getSessionUser();
+    if (!user) return unauthorizedResponse();
+
+    try {
+        const { id } = await params;
+
+        const data = await backendJson<DeleteBookmarkResponse>(
+            `/api/bookmarks/${encodeURIComponent(id)}`,
+            { method: "DELETE" }
+        );
+        return NextResponse.json(data);
+    } catch (error) {
+        return backendErrorResponse(error, "Failed to delete bookmark");
+    }
+}
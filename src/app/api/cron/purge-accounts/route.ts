@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server";
+import { purgeDueAccounts } from "@/lib/accountPurge";
+
+// Run daily by a scheduler (e.g. Vercel Cron), which sends CRON_SECRET as a bearer token
+export async function GET(request: NextRequest) {
+    const secret = process.env.CRON_SECRET;
+    if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const purged = await purgeDueAccounts();
+        return NextResponse.json({ purged });
+    } catch (error) {
+        console.error("Failed to purge accounts:", error);
+        return NextResponse.json({ error: "Failed to purge accounts" }, { status: 500 });
+    }
+}
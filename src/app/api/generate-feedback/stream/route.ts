@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { FeedbackValidationError, parseFeedback } from "@/lib/feedback";
+import { backendFetch } from "@/lib/backend";
+import { loadRequestedResume } from "@/lib/resumeStore";
+import { diagramFeedbackFields } from "@/lib/designDiagram";
+import { createSseResponse, relayBackendStream } from "@/lib/sse";
+import { isStreamStubEnabled, stubFeedbackEvents } from "@/lib/streamStub";
+
+const STREAM_TIMEOUT_MS = 120_000;
+
+export async function POST(request: NextRequest) {
+    let body;
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 });
+    }
+    const {
+        interviewId,
+        questionId,
+        question,
+        answer,
+        timeSpent,
+        timeLimit,
+        checkResume,
+        codeRun,
+        diagram,
+    } = body ?? {};
+    // A system design answer may be the diagram alone
+    const design = diagramFeedbackFields(diagram);
+
+    if (!question || (!answer && !design)) {
+        return NextResponse.json({ error: "Question and answer are required" }, { status: 400 });
+    }
+
+    if (isStreamStubEnabled()) {
+        return createSseResponse(
+            stubFeedbackEvents(answer || design?.diagramDescription, timeSpent, timeLimit)
+        );
+    }
+
+    async function* backendEvents() {
+        // With the resume attached the backend also checks the answer is consistent with it
+        const resume = await loadRequestedResume(checkResume);
+
+        // Abort the upstream request when the client cancels; generation can take a while
+        const response = await backendFetch("/api/generate-feedback/stream", {
+            method: "POST",
+            headers: { Accept: "text/event-stream" },
+            body: {
+                // Signed-in users' answers, diagrams included, are stored with their interview
+                ...(typeof interviewId === "string" && typeof questionId === "string"
+                    ? { interviewId, questionId }
+                    : {}),
+                question,
+                answer,
+                timeSpent,
+                timeLimit,
+                ...(resume ? { resume } : {}),
+                // Coding answers come with how the code did against the hidden tests
+                ...(codeRun ? { codeRun } : {}),
+                ...(design ?? {}),
+            },
+            signal: request.signal,
+            timeoutMs: STREAM_TIMEOUT_MS,
+        });
+
+        yield* relayBackendStream(response, (payload) => {
+            try {
+                return { feedback: parseFeedback(payload) };
+            } catch (error) {
+                if (error instanceof FeedbackValidationError) {
+                    throw new Error(`Received malformed feedback: ${error.message}`);
+                }
+                throw error;
+            }
+        });
+    }
+
+    return createSseResponse(backendEvents());
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { backendFetch } from "@/lib/backend";
+import { createSseResponse, relayBackendStream } from "@/lib/sse";
+import { isStreamStubEnabled, stubFollowUpEvents } from "@/lib/streamStub";
+
+const STREAM_TIMEOUT_MS = 120_000;
+
+export async function POST(request: NextRequest) {
+    let body;
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 });
+    }
+    const { originalQuestion, answer, previousTurns = [] } = body ?? {};
+
+    if (!originalQuestion || !answer) {
+        return NextResponse.json(
+            { error: "Original question and answer are required" },
+            { status: 400 }
+        );
+    }
+    if (!Array.isArray(previousTurns)) {
+        return NextResponse.json({ error: "previousTurns must be an array" }, { status: 400 });
+    }
+
+    if (isStreamStubEnabled()) {
+        return createSseResponse(stubFollowUpEvents(originalQuestion, previousTurns.length));
+    }
+
+    async function* backendEvents() {
+        // Abort the upstream request when the client cancels; generation can take a while
+        const response = await backendFetch("/api/generate-follow-up/stream", {
+            method: "POST",
+            headers: { Accept: "text/event-stream" },
+            body: { originalQuestion, answer, previousTurns },
+            signal: request.signal,
+            timeoutMs: STREAM_TIMEOUT_MS,
+        });
+
+        yield* relayBackendStream(response, (payload) => {
+            if (typeof payload.followUpQuestion !== "string" || !payload.followUpQuestion) {
+                throw new Error("Received malformed follow-up: missing followUpQuestion");
+            }
+            return { followUpQuestion: payload.followUpQuestion };
+        });
+    }
+
+    return createSseResponse(backendEvents());
+}
@@ -1,11 +1,256 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
+import { backendErrorResponse, backendJson, isBackendUnavailable } from "@/lib/backend";
+import { registerBackendUser } from "@/lib/backendUsers";
+import { BankSelection, QUESTION_BANK_VERSION, selectBankQuestions } from "@/lib/questionBank";
+import {
+    hasRequirements,
+    JobDescriptionContext,
+    matchRequirements,
+    toJobDescriptionContext,
+} from "@/lib/jobDescription";
+import {
+    AnsweredQuestion,
+    isNearDuplicate,
+    MAX_ANSWERED_QUESTIONS,
+    questionFingerprint,
+    selectWeakQuestions,
+    toAnsweredQuestions,
+} from "@/lib/questionHistory";
+import { Question } from "@/lib/interviewSession";
+import {
+    fitToMix,
+    MAX_QUESTIONS,
+    MIN_QUESTIONS,
+    mixQuestionType,
+    mixTotal,
+    QuestionMix,
+    subtractMix,
+    toQuestionMix,
+} from "@/lib/questionMix";
+import { buildResumeQuestions, ParsedResume } from "@/lib/resume";
+import {
+    buildValuesQuestions,
+    CompanyProfile,
+    findCompanyProfile,
+    InterviewStage,
+    orderByStages,
+    stagesFor,
+} from "@/lib/companyProfiles";
+import { loadRequestedResume } from "@/lib/resumeStore";
+import { CODE_LANGUAGES, toCodingChallenge } from "@/lib/codingChallenge";
+import { AnsweredQuestionsResponse, GenerateQuestionsResponse } from "@/lib/apiTypes";
+
+// Tags each question with the job description requirements it covers. The backend may tag
+// them itself; otherwise, and for bank questions, they're matched locally.
+function withCoverage(
+    data: GenerateQuestionsResponse,
+    jobDescription: JobDescriptionContext | null
+): GenerateQuestionsResponse {
+    if (!jobDescription) return data;
+
+    return {
+        ...data,
+        questions: data.questions.map((question) => ({
+            ...question,
+            covers: question.covers ?? matchRequirements(question.question, jobDescription),
+        })),
+    };
+}
+
+// Anything besides the selection that shapes generated questions
+interface GenerationContext {
+    jobDescription: JobDescriptionContext | null;
+    resume: ParsedResume | null;
+    company: { profile: CompanyProfile; stages: InterviewStage[] } | null;
+}
+
+// The browser runs coding answers against the challenge, so one the runner can't use is dropped
+function withValidChallenges(questions: Question[]): Question[] {
+    return questions.map((question) =>
+        question.coding === undefined
+            ? question
+            : { ...question, coding: toCodingChallenge(question.coding) ?? undefined }
+    );
+}
+
+// How many questions of each type the set came back short of, if any, for the client to say
+function shortfall(missing: QuestionMix): Pick<GenerateQuestionsResponse, "shortfall"> {
+    return mixTotal(missing) > 0 ? { shortfall: missing } : {};
+}
+
+// Orders the set by the company's interview stages and tags job description coverage
+function questionsResponse(data: GenerateQuestionsResponse, context: GenerationContext) {
+    const questions = withValidChallenges(data.questions);
+    const ordered = {
+        ...data,
+        questions: context.company ? orderByStages(questions, context.company.stages) : questions,
+    };
+    return NextResponse.json(withCoverage(ordered, context.jobDescription));
+}
+
+function generationBody(selection: BankSelection, context: GenerationContext) {
+    return {
+        jobRole: selection.jobRole,
+        company: selection.company,
+        experience: selection.seniority,
+        difficulty: selection.difficulty,
+        questionMix: selection.questionMix,
+        // Older backends only read a total and a single type
+        numberOfQuestions: mixTotal(selection.questionMix),
+        questionType: mixQuestionType(selection.questionMix),
+        // Coding questions need starter code and tests in a language the browser can run
+        ...(selection.questionMix.coding > 0 ? { codingLanguages: CODE_LANGUAGES } : {}),
+        ...(context.jobDescription ? { jobDescription: context.jobDescription } : {}),
+        ...(context.resume ? { resume: context.resume } : {}),
+        ...(context.company
+            ? {
+                  companyProfile: {
+                      name: context.company.profile.name,
+                      values: context.company.profile.values,
+                      questionStyles: context.company.profile.questionStyles,
+                      stages: context.company.stages,
+                  },
+              }
+            : {}),
+    };
+}
+
+// What the user answered before: from the backend when signed in, otherwise from the guest
+// history the client sends. Best effort, since without it the worst case is a repeat.
+async function loadAnsweredQuestions(
+    signedIn: boolean,
+    guestHistory: unknown
+): Promise<AnsweredQuestion[]> {
+    if (!signedIn) return toAnsweredQuestions(guestHistory);
+
+    try {
+        const data = await backendJson<AnsweredQuestionsResponse>(
+            `/api/db/users/me/answered-questions?limit=${MAX_ANSWERED_QUESTIONS}`
+        );
+        return data.questions;
+    } catch (error) {
+        console.error("Failed to load answered questions:", error);
+        return [];
+    }
+}
+
+/**
+ * Makes generated questions match the mix. Near-duplicates of answered questions and extras
+ * of a type are dropped, then short types are topped up by regenerating just what's missing
+ * and, failing that, from the bank. Repeats are only put back when nothing new is left, and a
+ * type stays short only if the bank runs out too, and what's still missing comes back with the
+ * questions. The set the backend saved for signed-in users still lists its originals.
+ */
+async function completeMix(
+    generated: Question[],
+    selection: BankSelection,
+    context: GenerationContext,
+    fingerprints: string[]
+): Promise<{ questions: Question[]; replaced: number; missing: QuestionMix }> {
+    const repeats = generated.filter((q) => isNearDuplicate(q.question, fingerprints));
+    const { questions, missing } = fitToMix(
+        generated.filter((q) => !repeats.includes(q)),
+        selection.questionMix
+    );
+    if (mixTotal(missing) === 0) return { questions, replaced: repeats.length, missing };
+
+    const seen = [...fingerprints, ...questions.map((q) => questionFingerprint(q.question))];
+    const shortSelection = { ...selection, questionMix: missing };
+
+    const regenerated = await backendJson<GenerateQuestionsResponse>("/api/generate-questions", {
+        method: "POST",
+        body: { ...generationBody(shortSelection, context), answeredFingerprints: seen },
+    })
+        .then((data) => data.questions ?? [])
+        .catch((error) => {
+            console.error("Failed to top up the question mix:", error);
+            return [];
+        });
+    const banked = selectBankQuestions({
+        ...shortSelection,
+        avoid: (question) => isNearDuplicate(question, seen),
+    });
+
+    const topUps: Question[] = [];
+    for (const candidate of [...regenerated, ...banked, ...repeats]) {
+        const isRepeat = repeats.includes(candidate);
+        if (
+            !(missing[candidate.type] > 0) ||
+            (!isRepeat && isNearDuplicate(candidate.question, seen))
+        ) {
+            continue;
+        }
+        topUps.push(candidate);
+        missing[candidate.type]--;
+        seen.push(questionFingerprint(candidate.question));
+    }
+
+    return {
+        questions: [...questions, ...topUps],
+        replaced: repeats.filter((q) => !topUps.includes(q)).length,
+        missing,
+    };
+}
+
+// Bank questions, with some of the behavioral ones made personal: about a third ask about
+// the user's resume when they asked for it, and values rounds ask about the company's values
+function bankQuestions(selection: BankSelection, context: GenerationContext) {
+    const { questionMix } = selection;
+    const personal: Question[] = [];
+
+    if (context.resume) {
+        personal.push(
+            ...buildResumeQuestions(
+                context.resume,
+                Math.min(Math.ceil(mixTotal(questionMix) / 3), questionMix.behavioral)
+            )
+        );
+    }
+    if (context.company) {
+        const valuesCount = context.company.stages
+            .filter((stage) => stage.format === "values")
+            .reduce((total, stage) => total + stage.count, 0);
+        personal.push(
+            ...buildValuesQuestions(
+                context.company.profile,
+                Math.min(valuesCount, questionMix.behavioral - personal.length)
+            )
+        );
+    }
+
+    return [
+        ...personal,
+        ...selectBankQuestions({ ...selection, questionMix: subtractMix(questionMix, personal) }),
+    ];
+}
+
+function bankResponse(selection: BankSelection, context: GenerationContext, revisits: Question[]) {
+    const questions = bankQuestions(selection, context);
+    const data: GenerateQuestionsResponse = {
+        questions: [...revisits, ...questions],
+        source: "bank",
+        bankVersion: QUESTION_BANK_VERSION,
+        ...shortfall(fitToMix(questions, selection.questionMix).missing),
+    };
+    return questionsResponse(data, context);
+}
 
 export async function POST(request: NextRequest) {
+    let selection: BankSelection | null = null;
+    const context: GenerationContext = { jobDescription: null, resume: null, company: null };
+    let revisits: Question[] = [];
+
+    let body;
     try {
-        const { jobRole, company, experience, difficulty, numberOfQuestions, questionType } =
-            await request.json();
+        body = (await request.json()) ?? {};
+    } catch {
+        return NextResponse.json({ error: "Request body must be JSON" }, { status: 400 });
+    }
+
+    try {
+        const { jobRole, company, experience, difficulty } = body;
 
         if (!jobRole || !company) {
             return NextResponse.json(
@@ -14,48 +259,109 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        // Get session to extract userId
-        const session = await getServerSession(authOptions);
-        const userId = session?.user?.email || "anonymous";
-
-        // Call the backend API
-        const backendUrl =
-            process.env.NEXT_PUBLIC_API_URL || process.env.BACKEND_URL || "http://localhost:5000";
-        const response = await fetch(`${backendUrl}/api/generate-questions`, {
-            method: "POST",
-            headers: {
-                "Content-Type": "application/json",
-            },
-            body: JSON.stringify({
-                jobRole,
-                company,
-                userId,
-                experience: experience || "mid-level",
-                difficulty: difficulty || "medium",
-                numberOfQuestions: numberOfQuestions || 5,
-                questionType: questionType || "all",
-            }),
-        });
-
-        if (!response.ok) {
-            const errorData = await response.json().catch(() => ({ error: "Unknown error" }));
-            console.error("Backend error:", response.status, errorData);
+        const questionMix: QuestionMix | null = toQuestionMix(body.questionMix);
+        if (!questionMix) {
             return NextResponse.json(
-                { error: errorData.error || "Backend API call failed", details: errorData },
-                { status: response.status }
+                {
+                    error: `Question mix must be whole numbers adding up to ${MIN_QUESTIONS}-${MAX_QUESTIONS} questions`,
+                },
+                { status: 400 }
             );
         }
 
-        const data = await response.json();
-        return NextResponse.json(data);
-    } catch (error) {
-        console.error("Error generating questions:", error);
-        return NextResponse.json(
+        selection = {
+            jobRole,
+            company,
+            seniority: experience || "mid-level",
+            difficulty: difficulty || "medium",
+            questionMix,
+        };
+
+        // Requirements parsed from a pasted job description, if the user gave one
+        const jobDescription = toJobDescriptionContext(body.jobDescription);
+        context.jobDescription =
+            jobDescription && hasRequirements(jobDescription) ? jobDescription : null;
+
+        // A known company's interview loop shapes the questions and their order
+        const profile = findCompanyProfile(company);
+        context.company = profile
+            ? { profile, stages: stagesFor(profile, selection.seniority, selection.jobRole) }
+            : null;
+
+        // The stored resume lets questions target the user's own roles and projects
+        context.resume = await loadRequestedResume(body.useResume);
+
+        // Signed-in users get their questions saved to their backend account
+        const session = await getServerSession(authOptions);
+
+        // A replacement for one question in a list being edited; the list's other questions
+        // are excluded and nothing is saved until the edited list is
+        const replacement = body.replacement === true;
+        const excluded: string[] = Array.isArray(body.exclude)
+            ? body.exclude.filter((q: unknown) => typeof q === "string").slice(0, MAX_QUESTIONS)
+            : [];
+
+        // New questions avoid what was answered before, unless the user asked to bring back
+        // the weak ones, which then come first and count towards the mix
+        const answered = await loadAnsweredQuestions(!!session?.user, body.answeredQuestions);
+        const fingerprints = [...answered.map((a) => a.question), ...excluded].map(
+            questionFingerprint
+        );
+        if (body.revisitWeakQuestions && !replacement) {
+            revisits = selectWeakQuestions(answered, { jobRole, questionMix });
+        }
+        selection = {
+            ...selection,
+            questionMix: subtractMix(questionMix, revisits),
+            avoid: (question) => isNearDuplicate(question, fingerprints),
+        };
+
+        if (mixTotal(selection.questionMix) === 0) {
+            const data: GenerateQuestionsResponse = { questions: revisits, source: "history" };
+            return questionsResponse(data, context);
+        }
+
+        if (body.offline) {
+            return bankResponse(selection, context, revisits);
+        }
+
+        // Saving the set needs the backend to know the user, so register them first
+        const saveSet = !!session?.user && !replacement;
+        if (saveSet) await registerBackendUser();
+
+        const data = await backendJson<GenerateQuestionsResponse>(
+            saveSet ? "/api/db/generate-questions" : "/api/generate-questions",
+            {
+                method: "POST",
+                body: {
+                    ...generationBody(selection, context),
+                    ...(fingerprints.length > 0 ? { answeredFingerprints: fingerprints } : {}),
+                },
+            }
+        );
+
+        const { questions, replaced, missing } = await completeMix(
+            data.questions ?? [],
+            selection,
+            context,
+            fingerprints
+        );
+        return questionsResponse(
             {
-                error: "Failed to generate questions",
-                details: error instanceof Error ? error.message : String(error),
+                ...data,
+                questions: [...revisits, ...questions],
+                source: "ai",
+                ...(replaced > 0 ? { replacedRepeats: replaced } : {}),
+                ...shortfall(missing),
             },
-            { status: 500 }
+            context
         );
+    } catch (error) {
+        // Practice shouldn't stop because the backend is down; the bank keeps it going
+        if (selection && isBackendUnavailable(error)) {
+            console.error("Question generation unavailable, using the question bank:", error);
+            return bankResponse(selection, context, revisits);
+        }
+        return backendErrorResponse(error, "Failed to generate questions");
     }
 }
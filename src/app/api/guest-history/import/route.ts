@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { backendErrorResponse, backendJson } from "@/lib/backend";
+import { registerBackendUser } from "@/lib/backendUsers";
+import { getSessionUser, unauthorizedResponse } from "@/lib/session";
+import { GuestInterview } from "@/lib/guestHistory";
+import { GuestImportResponse } from "@/lib/apiTypes";
+
+const MAX_IMPORT_INTERVIEWS = 50;
+
+function isGuestInterview(value: unknown): value is GuestInterview {
+    const interview = value as GuestInterview;
+    return (
+        typeof interview?.id === "string" &&
+        typeof interview.jobRole === "string" &&
+        Array.isArray(interview.questions) &&
+        Array.isArray(interview.responses)
+    );
+}
+
+// Copies interviews a visitor finished while signed out into the signed-in account.
+// The backend keys them by guest id and interview id, so retried imports are skipped.
+export async function POST(request: NextRequest) {
+    const user = await getSessionUser();
+    if (!user) return unauthorizedResponse();
+
+    try {
+        const { guestId, interviews } = await request.json();
+
+        if (typeof guestId !== "string" || !guestId || !Array.isArray(interviews)) {
+            return NextResponse.json(
+                { error: "guestId and interviews are required" },
+                { status: 400 }
+            );
+        }
+        if (interviews.length > MAX_IMPORT_INTERVIEWS || !interviews.every(isGuestInterview)) {
+            return NextResponse.json({ error: "Invalid guest interviews" }, { status: 400 });
+        }
+
+        // The backend only stores interviews for users it knows
+        await registerBackendUser();
+        const data = await backendJson<GuestImportResponse>("/api/db/interviews/import", {
+            method: "POST",
+            body: { guestId, interviews },
+        });
+        return NextResponse.json(data);
+    } catch (error) {
+        return backendErrorResponse(error, "Failed to import guest history");
+    }
+}
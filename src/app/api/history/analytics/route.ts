@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { backendErrorResponse, backendJson } from "@/lib/backend";
+import { getSessionUser, unauthorizedResponse } from "@/lib/session";
+import { HistoryAnalyticsResponse } from "@/lib/apiTypes";
+
+export async function GET(request: NextRequest) {
+    const user = await getSessionUser();
+    if (!user) return unauthorizedResponse();
+
+    try {
+        const days = Number(request.nextUrl.searchParams.get("days")) || 30;
+
+        const data = await backendJson<HistoryAnalyticsResponse>(
+            `/api/history/analytics?days=${days}`
+        );
+        return NextResponse.json(data);
+    } catch (error) {
+        return backendErrorResponse(error, "Failed to fetch analytics");
+    }
+}
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from "next/server";
+import { backendErrorResponse, backendJson } from "@/lib/backend";
+import { getSessionUser, unauthorizedResponse } from "@/lib/session";
+import { InterviewDetailsResponse } from "@/lib/apiTypes";
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const user = await getSessionUser();
+    if (!user) return unauthorizedResponse();
+
+    try {
+        const { id } = await params;
+        const data = await backendJson<InterviewDetailsResponse>(
+            `/api/interview-details/${encodeURIComponent(id)}`
+        );
+        return NextResponse.json(data);
+    } catch (error) {
+        return backendErrorResponse(error, "Failed to fetch interview details");
+    }
+}
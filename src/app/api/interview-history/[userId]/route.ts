@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { backendErrorResponse, backendJson } from "@/lib/backend";
+import { resolveBackendUserId, unknownUserResponse } from "@/lib/backendUsers";
+import {
+    forbiddenResponse,
+    getSessionUser,
+    canViewUserData,
+    unauthorizedResponse,
+} from "@/lib/session";
+import { InterviewHistoryResponse } from "@/lib/apiTypes";
+
+export async function GET(
+    _request: NextRequest,
+    { params }: { params: Promise<{ userId: string }> }
+) {
+    const user = await getSessionUser();
+    if (!user) return unauthorizedResponse();
+
+    try {
+        const { userId } = await params;
+        if (!canViewUserData(user, userId)) return forbiddenResponse();
+
+        const backendId = await resolveBackendUserId(user, userId);
+        if (backendId === null) return unknownUserResponse();
+
+        const data = await backendJson<InterviewHistoryResponse>(
+            `/api/interview-history/${backendId}`
+        );
+        return NextResponse.json(data);
+    } catch (error) {
+        return backendErrorResponse(error, "Failed to fetch interview history");
+    }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { backendErrorResponse, backendJson } from "@/lib/backend";
+import { getSessionUser, unauthorizedResponse } from "@/lib/session";
+import { toQuestionList } from "@/lib/questionList";
+import { MAX_QUESTIONS } from "@/lib/questionMix";
+import { SaveQuestionSetResponse } from "@/lib/apiTypes";
+
+// Replaces a saved question set with the list as the user edited it before starting
+export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const user = await getSessionUser();
+    if (!user) return unauthorizedResponse();
+
+    try {
+        const { id } = await params;
+        const body = await request.json();
+
+        const questions = toQuestionList(body.questions);
+        if (!questions) {
+            return NextResponse.json(
+                { error: `Question sets need 1-${MAX_QUESTIONS} valid questions with unique ids` },
+                { status: 400 }
+            );
+        }
+
+        const data = await backendJson<SaveQuestionSetResponse>(
+            `/api/db/question-sets/${encodeURIComponent(id)}`,
+            { method: "PUT", body: { questions } }
+        );
+        return NextResponse.json(data);
+    } catch (error) {
+        return backendErrorResponse(error, "Failed to save question set");
+    }
+}
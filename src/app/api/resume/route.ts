@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { hasResumeContent, parseResumeText } from "@/lib/resume";
+import { extractResumeText, ResumeFileError } from "@/lib/resumeFile";
+import { deleteResume, loadResume, saveResume } from "@/lib/resumeStore";
+import { getSessionUser, unauthorizedResponse } from "@/lib/session";
+import { ResumeResponse } from "@/lib/apiTypes";
+
+export async function GET() {
+    const user = await getSessionUser();
+    if (!user) return unauthorizedResponse();
+
+    try {
+        const data: ResumeResponse = { resume: await loadResume(user.id) };
+        return NextResponse.json(data);
+    } catch (error) {
+        console.error("Failed to read resume:", error);
+        return NextResponse.json({ error: "Failed to read resume" }, { status: 500 });
+    }
+}
+
+// Multipart upload with the PDF or DOCX in a "file" field. Only the parsed result is kept.
+export async function POST(request: NextRequest) {
+    const user = await getSessionUser();
+    if (!user) return unauthorizedResponse();
+
+    try {
+        const file = (await request.formData()).get("file");
+        if (!(file instanceof File)) {
+            return NextResponse.json({ error: "No file uploaded" }, { status: 400 });
+        }
+
+        const parsed = parseResumeText(await extractResumeText(file));
+        if (!hasResumeContent(parsed)) {
+            return NextResponse.json(
+                {
+                    error: 'We couldn\'t find experience, projects or skills in that resume. Check it has headings like "Experience" and "Skills".',
+                },
+                { status: 422 }
+            );
+        }
+
+        const data: ResumeResponse = { resume: await saveResume(user.id, file.name, parsed) };
+        return NextResponse.json(data);
+    } catch (error) {
+        if (error instanceof ResumeFileError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        console.error("Failed to save resume:", error);
+        return NextResponse.json({ error: "Failed to save resume" }, { status: 500 });
+    }
+}
+
+export async function DELETE() {
+    const user = await getSessionUser();
+    if (!user) return unauthorizedResponse();
+
+    try {
+        await deleteResume(user.id);
+        const data: ResumeResponse = { resume: null };
+        return NextResponse.json(data);
+    } catch (error) {
+        console.error("Failed to delete resume:", error);
+        return NextResponse.json({ error: "Failed to delete resume" }, { status: 500 });
+    }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { backendErrorResponse } from "@/lib/backend";
+import { TranscriptionError, getTranscriptionProvider } from "@/lib/transcription";
+
+// Five minutes of webm/opus stays well under this
+const MAX_AUDIO_BYTES = 10 * 1024 * 1024;
+
+export async function POST(request: NextRequest) {
+    try {
+        const formData = await request.formData();
+        const audio = formData.get("audio");
+        const duration = Number(formData.get("duration"));
+
+        if (!(audio instanceof Blob) || audio.size === 0) {
+            return NextResponse.json({ error: "Audio recording is required" }, { status: 400 });
+        }
+
+        if (audio.size > MAX_AUDIO_BYTES) {
+            return NextResponse.json({ error: "Audio recording is too large" }, { status: 413 });
+        }
+
+        const provider = getTranscriptionProvider();
+        const { transcript } = await provider.transcribe(audio, {
+            duration: Number.isFinite(duration) && duration > 0 ? duration : undefined,
+        });
+
+        return NextResponse.json({ transcript, provider: provider.name });
+    } catch (error) {
+        if (error instanceof TranscriptionError) {
+            console.error("Error transcribing audio:", error.message);
+            return NextResponse.json(
+                { error: "Failed to transcribe audio", details: error.message },
+                { status: 502 }
+            );
+        }
+
+        return backendErrorResponse(error, "Failed to transcribe audio");
+    }
+}
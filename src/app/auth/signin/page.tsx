@@ -1,10 +1,68 @@
 "use client";
 
 import { signIn, getProviders, ClientSafeProvider } from "next-auth/react";
-import { useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { FormEvent, Suspense, useEffect, useState } from "react";
+import { Github, KeyRound, Mail } from "lucide-react";
 
-export default function SignIn() {
+// Messages for the error codes NextAuth appends to the sign-in URL
+const ERROR_MESSAGES: Record<string, string> = {
+    OAuthSignin: "We couldn't start signing you in with that provider. Please try again.",
+    OAuthCallback: "The provider didn't complete the sign-in. Please try again.",
+    OAuthCreateAccount: "We couldn't create an account with that provider.",
+    OAuthAccountNotLinked:
+        "That email is already linked to a different sign-in method. Use the provider you signed up with.",
+    EmailCreateAccount: "We couldn't create an account for that email address.",
+    EmailSignin: "We couldn't send the sign-in email. Check the address and try again.",
+    CredentialsSignin: "Incorrect email or password.",
+    SessionRequired: "Please sign in to view that page.",
+    Verification: "That sign-in link has expired or was already used. Request a new one.",
+    Callback: "Something went wrong while signing you in. Please try again.",
+    AccessDenied: "This account can't sign in. It may have been suspended.",
+    Default: "Unable to sign in. Please try again.",
+};
+
+const GoogleIcon = () => (
+    <svg className="w-5 h-5" viewBox="0 0 24 24">
+        <path
+            fill="#4285F4"
+            d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"
+        />
+        <path
+            fill="#34A853"
+            d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"
+        />
+        <path
+            fill="#FBBC05"
+            d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"
+        />
+        <path
+            fill="#EA4335"
+            d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"
+        />
+    </svg>
+);
+
+const providerIcon = (id: string) => {
+    if (id === "google") return <GoogleIcon />;
+    if (id === "github") return <Github size={20} />;
+    return <KeyRound size={20} />;
+};
+
+const inputStyle = {
+    borderColor: "var(--border)",
+    color: "var(--foreground)",
+};
+
+function SignInContent() {
+    const router = useRouter();
+    const searchParams = useSearchParams();
+    const callbackUrl = searchParams.get("callbackUrl") || "/";
     const [providers, setProviders] = useState<Record<string, ClientSafeProvider> | null>(null);
+    const [error, setError] = useState<string | null>(searchParams.get("error"));
+    const [email, setEmail] = useState("");
+    const [password, setPassword] = useState("");
+    const [isSubmitting, setIsSubmitting] = useState(false);
 
     useEffect(() => {
         const setUpProviders = async () => {
@@ -14,6 +72,42 @@ export default function SignIn() {
         setUpProviders();
     }, []);
 
+    const allProviders = providers ? Object.values(providers) : [];
+    const oauthProviders = allProviders.filter((p) => p.type === "oauth");
+    const emailProvider = allProviders.find((p) => p.type === "email");
+    const credentialsProvider = allProviders.find((p) => p.type === "credentials");
+
+    const handleEmailSignIn = async (e: FormEvent) => {
+        e.preventDefault();
+        if (!emailProvider || !email.trim()) return;
+
+        setIsSubmitting(true);
+        // Redirects to the verify-request page once the link is sent
+        await signIn(emailProvider.id, { email, callbackUrl });
+        setIsSubmitting(false);
+    };
+
+    const handleCredentialsSignIn = async (e: FormEvent) => {
+        e.preventDefault();
+        if (!credentialsProvider) return;
+
+        setIsSubmitting(true);
+        setError(null);
+        const result = await signIn(credentialsProvider.id, {
+            email,
+            password,
+            callbackUrl,
+            redirect: false,
+        });
+        setIsSubmitting(false);
+
+        if (result?.error) {
+            setError(result.error);
+            return;
+        }
+        router.push(result?.url || callbackUrl);
+    };
+
     return (
         <div
             className="min-h-screen flex flex-col justify-center items-center px-4"
@@ -37,39 +131,90 @@ export default function SignIn() {
                         Welcome Back
                     </h2>
 
-                    {providers &&
-                        Object.values(providers).map((provider: ClientSafeProvider) => (
-                            <div key={provider.name}>
-                                <button
-                                    onClick={() => signIn(provider.id, { callbackUrl: "/" })}
-                                    className="w-full flex items-center justify-center gap-3 py-4 px-6 border border-gray-300 rounded-xl hover:bg-gray-50 transition-all duration-300"
-                                    style={{
-                                        borderColor: "var(--border)",
-                                        color: "var(--foreground)",
-                                    }}
-                                >
-                                    <svg className="w-5 h-5" viewBox="0 0 24 24">
-                                        <path
-                                            fill="#4285F4"
-                                            d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"
-                                        />
-                                        <path
-                                            fill="#34A853"
-                                            d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"
-                                        />
-                                        <path
-                                            fill="#FBBC05"
-                                            d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"
-                                        />
-                                        <path
-                                            fill="#EA4335"
-                                            d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"
-                                        />
-                                    </svg>
-                                    Continue with {provider.name}
-                                </button>
-                            </div>
-                        ))}
+                    {error && (
+                        <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg px-4 py-3">
+                            {ERROR_MESSAGES[error] ?? ERROR_MESSAGES.Default}
+                        </p>
+                    )}
+
+                    {providers && allProviders.length === 0 && (
+                        <p
+                            className="text-sm text-center"
+                            style={{ color: "var(--text-secondary)" }}
+                        >
+                            No sign-in methods are configured for this deployment.
+                        </p>
+                    )}
+
+                    {oauthProviders.map((provider) => (
+                        <div key={provider.id}>
+                            <button
+                                onClick={() => signIn(provider.id, { callbackUrl })}
+                                className="w-full flex items-center justify-center gap-3 py-4 px-6 border border-gray-300 rounded-xl hover:bg-gray-50 transition-all duration-300"
+                                style={{
+                                    borderColor: "var(--border)",
+                                    color: "var(--foreground)",
+                                }}
+                            >
+                                {providerIcon(provider.id)}
+                                Continue with {provider.name}
+                            </button>
+                        </div>
+                    ))}
+
+                    {emailProvider && (
+                        <form onSubmit={handleEmailSignIn} className="space-y-3">
+                            <input
+                                type="email"
+                                value={email}
+                                onChange={(e) => setEmail(e.target.value)}
+                                placeholder="you@example.com"
+                                required
+                                className="w-full border rounded-xl px-4 py-3"
+                                style={inputStyle}
+                            />
+                            <button
+                                type="submit"
+                                disabled={isSubmitting}
+                                className="btn-secondary w-full py-3 flex items-center justify-center gap-2"
+                            >
+                                <Mail size={18} />
+                                Email me a sign-in link
+                            </button>
+                        </form>
+                    )}
+
+                    {credentialsProvider && (
+                        <form onSubmit={handleCredentialsSignIn} className="space-y-3">
+                            <input
+                                type="email"
+                                value={email}
+                                onChange={(e) => setEmail(e.target.value)}
+                                placeholder="Email"
+                                autoComplete="username"
+                                required
+                                className="w-full border rounded-xl px-4 py-3"
+                                style={inputStyle}
+                            />
+                            <input
+                                type="password"
+                                value={password}
+                                onChange={(e) => setPassword(e.target.value)}
+                                placeholder="Password"
+                                autoComplete="current-password"
+                                required
+                                className="w-full border rounded-xl px-4 py-3"
+                                style={inputStyle}
+                            />
+                            <button
+                                type="submit"
+                                disabled={isSubmitting}
+                                className="btn-primary w-full py-3"
+                            >
+                                Sign in with password
+                            </button>
+                        </form>
+                    )}
 
                     <div className="text-center">
                         <p className="text-sm" style={{ color: "var(--text-secondary)" }}>
@@ -81,3 +226,12 @@ export default function SignIn() {
         </div>
     );
 }
+
+// useSearchParams needs a Suspense boundary so the page can still be prerendered
+export default function SignIn() {
+    return (
+        <Suspense fallback={null}>
+            <SignInContent />
+        </Suspense>
+    );
+}
@@ -0,0 +1,26 @@
+import Link from "next/link";
+import { Mail } from "lucide-react";
+
+export default function VerifyRequest() {
+    return (
+        <div
+            className="min-h-screen flex flex-col justify-center items-center px-4"
+            style={{ backgroundColor: "var(--background)" }}
+        >
+            <div className="card w-full max-w-md text-center space-y-6">
+                <div className="flex justify-center" style={{ color: "var(--accent)" }}>
+                    <Mail size={40} />
+                </div>
+                <h1 className="text-2xl font-light" style={{ color: "var(--foreground)" }}>
+                    Check your email
+                </h1>
+                <p style={{ color: "var(--text-secondary)" }}>
+                    We sent you a sign-in link. It expires in 24 hours and can only be used once.
+                </p>
+                <Link href="/auth/signin" className="text-sm hover:underline">
+                    Use a different sign-in method
+                </Link>
+            </div>
+        </div>
+    );
+}
@@ -4,6 +4,8 @@ import { useState, useEffect, useCallback } from "react";
 import { useParams } from "next/navigation";
 import { useSession } from "next-auth/react";
 import Link from "next/link";
+import FeedbackBreakdown from "@/components/FeedbackBreakdown";
+import DiagramCanvas from "@/components/DiagramCanvas";
 import {
     BarChart,
     Bar,
@@ -19,35 +21,8 @@ import {
     PolarRadiusAxis,
     Radar,
 } from "recharts";
-
-// Interfaces
-interface Answer {
-    id: number;
-    question: string;
-    answer: string;
-    relevanceScore: number | null;
-    clarityScore: number | null;
-    depthScore: number | null;
-    overallScore: number | null;
-    strengths: string[] | null;
-    improvements: string[] | null;
-    createdAt: string;
-    timeSpent: number | null;
-}
-
-interface InterviewDetails {
-    interview: {
-        id: number;
-        jobRole: string;
-        company: string;
-        experience: string;
-        difficulty: string;
-        status: string;
-        duration: number | null;
-        createdAt: string;
-    };
-    answers: Answer[];
-}
+import { InterviewDetails, InterviewDetailsResponse } from "@/lib/apiTypes";
+import { isDiagramEmpty, toDesignDiagram } from "@/lib/designDiagram";
 
 const StatCard = ({
     title,
@@ -65,9 +40,21 @@ const StatCard = ({
     </div>
 );
 
-export default function InterviewDetails() {
+// The diagram drawn for a system design answer, if the stored answer has one
+const AnswerDiagram = ({ value }: { value: unknown }) => {
+    const diagram = toDesignDiagram(value);
+    if (!diagram || isDiagramEmpty(diagram)) return null;
+
+    return (
+        <div className="mb-4">
+            <DiagramCanvas diagram={diagram} readOnly />
+        </div>
+    );
+};
+
+export default function InterviewDetailsPage() {
     const { id } = useParams();
-    const { status } = useSession();
+    const { status } = useSession({ required: true });
     const [details, setDetails] = useState<InterviewDetails | null>(null);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
@@ -76,15 +63,14 @@ export default function InterviewDetails() {
         if (!id) return;
         try {
             setLoading(true);
-            const backendUrl = process.env.NEXT_PUBLIC_API_URL || "http://localhost:5002";
-            const res = await fetch(`${backendUrl}/api/interview-details/${id}`);
+            const res = await fetch(`/api/interview-details/${id}`);
 
             if (!res.ok) {
                 throw new Error("Failed to fetch interview details.");
             }
 
-            const data = await res.json();
-            if (data.success) {
+            const data: InterviewDetailsResponse = await res.json();
+            if (data.success && data.details) {
                 setDetails(data.details);
             } else {
                 throw new Error(data.message || "Could not retrieve details.");
@@ -233,39 +219,20 @@ export default function InterviewDetails() {
                                     </span>
                                 )}
                             </div>
-                            <p className="text-gray-700 mb-4 italic">
-                                Your answer: &quot;{ans.answer}&quot;
-                            </p>
-                            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-center mb-4">
-                                <StatCard
-                                    title="Relevance"
-                                    value={`${ans.relevanceScore || 0}/10`}
-                                />
-                                <StatCard title="Clarity" value={`${ans.clarityScore || 0}/10`} />
-                                <StatCard title="Depth" value={`${ans.depthScore || 0}/10`} />
-                            </div>
-                            {ans.strengths && (
-                                <div className="mb-2">
-                                    <h4 className="font-semibold text-green-700">Strengths:</h4>
-                                    <ul className="list-disc list-inside text-sm text-gray-600">
-                                        {ans.strengths.map((s, i) => (
-                                            <li key={i}>{s}</li>
-                                        ))}
-                                    </ul>
-                                </div>
-                            )}
-                            {ans.improvements && (
-                                <div>
-                                    <h4 className="font-semibold text-orange-700">
-                                        Areas for Improvement:
-                                    </h4>
-                                    <ul className="list-disc list-inside text-sm text-gray-600">
-                                        {ans.improvements.map((imp, i) => (
-                                            <li key={i}>{imp}</li>
-                                        ))}
-                                    </ul>
-                                </div>
+                            <AnswerDiagram value={ans.diagram} />
+                            {ans.answer && (
+                                <p className="text-gray-700 mb-4 italic">
+                                    Your answer: &quot;{ans.answer}&quot;
+                                </p>
                             )}
+                            <FeedbackBreakdown
+                                relevanceScore={ans.relevanceScore}
+                                clarityScore={ans.clarityScore}
+                                depthScore={ans.depthScore}
+                                strengths={ans.strengths}
+                                improvements={ans.improvements}
+                                resumeNotes={ans.resumeNotes}
+                            />
                         </div>
                     ))}
                 </div>
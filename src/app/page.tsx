@@ -1,74 +1,162 @@
 "use client";
 
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useSession } from "next-auth/react";
 import UserMenu from "@/components/UserMenu";
+import FollowUpThread from "@/components/FollowUpThread";
+import QuestionTimer from "@/components/QuestionTimer";
+import { VoiceRecorder } from "@/components/VoiceRecorder";
+import { useEventStream } from "@/hooks/useEventStream";
+import { useInterviewEngine } from "@/hooks/useInterviewEngine";
+import InterviewSummary from "@/components/InterviewSummary";
+import FeedbackBreakdown from "@/components/FeedbackBreakdown";
+import JobDescriptionInput from "@/components/JobDescriptionInput";
+import RequirementCoverage from "@/components/RequirementCoverage";
+import ResumeToggle from "@/components/ResumeToggle";
+import QuestionMixBuilder from "@/components/QuestionMixBuilder";
+import CompanyProfileCard from "@/components/CompanyProfileCard";
+import CodeEditor from "@/components/CodeEditor";
+import CodeRunResults from "@/components/CodeRunResults";
+import DiagramCanvas from "@/components/DiagramCanvas";
+import QuestionListEditor from "@/components/QuestionListEditor";
+import { hasRequirements, parseJobDescription } from "@/lib/jobDescription";
+import { InterviewFeedback } from "@/lib/feedback";
+import { GenerateQuestionsResponse } from "@/lib/apiTypes";
+import { answeredFromGuestHistory } from "@/lib/questionHistory";
+import {
+    ENGINEERING_QUESTION_TYPES,
+    mixTotal,
+    QuestionMix,
+    QUESTION_TYPE_LABELS,
+    QUESTION_TYPES,
+} from "@/lib/questionMix";
+import { isEngineeringRole } from "@/lib/questionBank";
+import { CodeRunResult, summarizeCodeRun } from "@/lib/codingChallenge";
+import { RUN_TIME_LIMIT_MS, runCode } from "@/lib/codeRunner";
+import { answerWithDiagram, emptyDiagram, isDiagramEmpty } from "@/lib/designDiagram";
+import { COMPANY_PROFILES, findCompanyProfile, profileQuestionMix } from "@/lib/companyProfiles";
+import { loadGuestHistory } from "@/lib/guestHistory";
+import { getOvertime } from "@/lib/timeBudget";
+import { InterviewConfig } from "@/lib/interviewEngine";
+import { deleteRecording, saveRecording } from "@/lib/recordingStore";
+import {
+    Question,
+    InterviewSession,
+    MAX_FOLLOW_UP_DEPTH,
+    loadInterviewSession,
+    clearInterviewSession,
+} from "@/lib/interviewSession";
 
 import {
     Briefcase,
     Building2,
     GraduationCap,
     Target,
-    ListChecks,
-    Hash,
     Sparkles,
+    RotateCcw,
+    MessagesSquare,
+    Timer,
+    Mic,
+    WifiOff,
+    BookOpen,
+    History,
+    Play,
 } from "lucide-react";
 import Image from "next/image";
-
-interface Question {
-    id: string;
-    question: string;
-    type: "behavioral" | "technical" | "situational";
-    difficulty: "easy" | "medium" | "hard";
-    category: string;
-}
+import toast from "react-hot-toast";
 
 export default function Home() {
-    const { data: session } = useSession();
-    const [jobRole, setJobRole] = useState("");
-    const [company, setCompany] = useState("");
-    const [difficulty, setDifficulty] = useState<"easy" | "medium" | "hard">("medium");
-    const [seniority, setSeniority] = useState<string>("mid-level");
-    const [numberOfQuestions, setNumberOfQuestions] = useState<number>(5);
-    const [questionType, setQuestionType] = useState<
-        "behavioral" | "technical" | "situational" | "all"
-    >("all");
-    const [questions, setQuestions] = useState<Question[]>([]);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState("");
-    const [currentStep, setCurrentStep] = useState<"input" | "questions" | "mock" | "complete">(
-        "input"
+    const [resumableSession, setResumableSession] = useState<InterviewSession | null>(null);
+    const [showVoiceRecorder, setShowVoiceRecorder] = useState(false);
+    const [isTranscribing, setIsTranscribing] = useState(false);
+    // The latest test run and the code it ran, so unchanged code isn't run again on submit
+    const [codeRun, setCodeRun] = useState<{ code: string; result: CodeRunResult } | null>(null);
+    const [isRunningCode, setIsRunningCode] = useState(false);
+    const [regeneratingId, setRegeneratingId] = useState<string | null>(null);
+    const feedbackStream = useEventStream<{ feedback: InterviewFeedback }>();
+    const followUpStream = useEventStream<{ followUpQuestion: string }>();
+    const followUpFeedbackStream = useEventStream<{ feedback: InterviewFeedback }>();
+
+    const { status } = useSession();
+
+    // The clock pauses while feedback streams in and resumes if the request is cancelled.
+    // Guests keep finished interviews locally until they sign in.
+    const { state, dispatch, currentQuestion, currentResponse, followUps, timeLimit, overtime } =
+        useInterviewEngine({
+            clockPaused: feedbackStream.isStreaming,
+            keepGuestHistory: status === "unauthenticated",
+        });
+    const {
+        jobRole,
+        company,
+        difficulty,
+        seniority,
+        questionMix,
+        jobDescription,
+        useResume,
+        revisitWeakQuestions,
+        questions,
+        questionSetId,
+        questionsEdited,
+        interviewId,
+        currentStep,
+        currentQuestionIndex,
+        currentAnswer,
+        timer,
+        currentRecordingId,
+        currentDiagram,
+        showFeedback,
+        followUpAnswer,
+        followUpDepth,
+        timedMode,
+        timeUpBehavior,
+        offlineMode,
+        questionSource,
+        responses,
+    } = state;
+    const isBusy =
+        feedbackStream.isStreaming ||
+        followUpStream.isStreaming ||
+        followUpFeedbackStream.isStreaming ||
+        isTranscribing ||
+        isRunningCode;
+    const feedback = showFeedback ? (currentResponse?.feedback ?? null) : null;
+    const jobRequirements = useMemo(() => parseJobDescription(jobDescription), [jobDescription]);
+    const hasJobRequirements = hasRequirements(jobRequirements);
+    const companyProfile = useMemo(() => findCompanyProfile(company), [company]);
+    // Engineering types stay listed for other roles only once they're in the mix, to be removed
+    const mixTypes = QUESTION_TYPES.filter(
+        (type) =>
+            !ENGINEERING_QUESTION_TYPES.includes(type) ||
+            isEngineeringRole(jobRole) ||
+            questionMix[type] > 0
     );
-    const [, setSavedQuestionSetId] = useState<string | null>(null);
-
-    // Mock interview state
-    const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
-    const [currentAnswer, setCurrentAnswer] = useState("");
-    const [feedback, setFeedback] = useState("");
-    const [isSubmittingAnswer, setIsSubmittingAnswer] = useState(false);
-    const [showFeedback, setShowFeedback] = useState(false);
-    const [followUpQuestion, setFollowUpQuestion] = useState("");
-    const [isFetchingFollowUp, setIsFetchingFollowUp] = useState(false);
-    const [timer, setTimer] = useState(0);
-    const timerIntervalRef = useRef<NodeJS.Timeout | null>(null);
+    const isCodingQuestion = currentQuestion?.type === "coding";
+    const isSystemDesignQuestion = currentQuestion?.type === "system-design";
+    // A system design answer can be the diagram alone
+    const hasAnswer = !!currentAnswer.trim() || !isDiagramEmpty(currentDiagram);
+    const answeredOvertime = currentResponse
+        ? getOvertime(currentResponse.timeSpent, currentResponse.timeLimit)
+        : 0;
 
+    // Offer to resume an interview left behind by a reload or closed tab
     useEffect(() => {
-        if (currentStep === "mock" && !showFeedback) {
-            const intervalId = setInterval(() => {
-                setTimer((prevTimer) => prevTimer + 1);
-            }, 1000);
-            timerIntervalRef.current = intervalId;
-
-            return () => {
-                if (intervalId) clearInterval(intervalId);
-            };
-        } else {
-            if (timerIntervalRef.current) {
-                clearInterval(timerIntervalRef.current);
-                timerIntervalRef.current = null;
-            }
-        }
-    }, [currentStep, currentQuestionIndex, showFeedback]);
+        setResumableSession(loadInterviewSession());
+    }, []);
+
+    const configure = (config: Partial<InterviewConfig>) => dispatch({ type: "CONFIGURE", config });
+
+    // Picking a company with a known loop switches the mix to its format; it stays editable
+    const selectCompany = (value: string) => {
+        const profile = findCompanyProfile(value);
+        configure(
+            profile && profile.id !== companyProfile?.id
+                ? { company: value, questionMix: profileQuestionMix(profile, seniority, jobRole) }
+                : { company: value }
+        );
+    };
 
     const formatTime = (seconds: number) => {
         const minutes = Math.floor(seconds / 60);
@@ -78,6 +166,23 @@ export default function Home() {
             .padStart(2, "0")}`;
     };
 
+    const generationRequest = () => ({
+        jobRole,
+        company,
+        difficulty,
+        experience: seniority,
+        questionMix,
+        offline: offlineMode,
+        jobDescription: hasJobRequirements ? jobRequirements : undefined,
+        useResume,
+        revisitWeakQuestions,
+        // Signed-in history is looked up by the route; guests' only lives here
+        answeredQuestions:
+            status === "unauthenticated"
+                ? answeredFromGuestHistory(loadGuestHistory()?.interviews ?? [])
+                : undefined,
+    });
+
     const handleGenerateQuestions = async () => {
         if (!jobRole.trim() || !company.trim()) {
             setError("Please fill both fields");
@@ -88,65 +193,45 @@ export default function Home() {
         setError("");
 
         try {
-            const backendUrl = process.env.NEXT_PUBLIC_API_URL || "http://localhost:5002";
-
-            // First, register/update user if authenticated
-            if (session?.user) {
-                await fetch(`${backendUrl}/api/db/auth/user`, {
-                    method: "POST",
-                    headers: {
-                        "Content-Type": "application/json",
-                        "x-user-email": session.user.email || "",
-                        "x-user-name": session.user.name || "",
-                        "x-user-image": session.user.image || "",
-                    },
-                    body: JSON.stringify({
-                        email: session.user.email,
-                        name: session.user.name,
-                        image: session.user.image,
-                        googleId: session.user.email, // Using email as googleId for now
-                    }),
-                });
-            }
-
-            // Generate questions with database integration if authenticated
-            const endpoint = session?.user
-                ? `${backendUrl}/api/db/generate-questions`
-                : `${backendUrl}/api/generate-questions`;
-            const headers: Record<string, string> = {
-                "Content-Type": "application/json",
-            };
-
-            if (session?.user) {
-                headers["x-user-email"] = session.user.email || "";
-                headers["x-user-name"] = session.user.name || "";
-                headers["x-user-image"] = session.user.image || "";
-            }
-
-            const response = await fetch(endpoint, {
+            // The route registers signed-in users and saves the set on their behalf
+            const response = await fetch("/api/generate-questions", {
                 method: "POST",
-                headers,
-                body: JSON.stringify({
-                    jobRole,
-                    company,
-                    difficulty,
-                    experience: seniority,
-                    numberOfQuestions,
-                    questionType,
-                    userId: session?.user?.email || "anonymous", // Use email as userId or "anonymous"
-                }),
+                headers: {
+                    "Content-Type": "application/json",
+                },
+                body: JSON.stringify(generationRequest()),
             });
 
             if (!response.ok) {
                 throw new Error("Failed to generate questions");
             }
 
-            const data = await response.json();
-            setQuestions(data.questions || []);
-            if (data.questionSetId) {
-                setSavedQuestionSetId(data.questionSetId);
+            const data: GenerateQuestionsResponse = await response.json();
+            dispatch({
+                type: "GENERATE",
+                questions: data.questions || [],
+                questionSetId: data.questionSetId ?? null,
+                source: data.source ?? "ai",
+            });
+            if (data.source === "bank" && !offlineMode) {
+                toast(
+                    "Question generation is unavailable, so these come from the offline question bank."
+                );
             }
-            setCurrentStep("questions");
+            if (data.replacedRepeats) {
+                toast(
+                    `Swapped ${data.replacedRepeats} question${data.replacedRepeats === 1 ? "" : "s"} you've already answered for new ones.`
+                );
+            }
+            const { shortfall } = data;
+            if (shortfall && mixTotal(shortfall) > 0) {
+                const missing = QUESTION_TYPES.filter((type) => shortfall[type] > 0)
+                    .map((type) => `${shortfall[type]} ${QUESTION_TYPE_LABELS[type].toLowerCase()}`)
+                    .join(", ");
+                toast(`Not enough questions were available for your mix. Missing: ${missing}.`);
+            }
+            // A freshly generated set replaces whatever session was left behind
+            setResumableSession(null);
         } catch (err) {
             setError("Failed to generate questions. Please try again.");
             console.error("Error:", err);
@@ -155,116 +240,299 @@ export default function Home() {
         }
     };
 
-    const startMockInterview = () => {
-        setCurrentStep("mock");
-        setCurrentQuestionIndex(0);
-        setCurrentAnswer("");
-        setFeedback("");
-        setShowFeedback(false);
-        setTimer(0);
+    // Streams and per-question UI belong to the question on screen, not the engine
+    const leaveQuestion = () => {
+        feedbackStream.reset();
+        followUpStream.reset();
+        followUpFeedbackStream.reset();
+        setShowVoiceRecorder(false);
+        setCodeRun(null);
+        setError("");
     };
 
-    const requestFollowUp = async () => {
-        setIsFetchingFollowUp(true);
-        setFollowUpQuestion("");
+    const startMockInterview = (retry?: Question[]) => {
+        leaveQuestion();
+        dispatch({ type: "START", interviewId: crypto.randomUUID(), questions: retry });
+    };
+
+    // Swaps one question for a new one of the same type and difficulty, keeping the rest
+    const handleRegenerateQuestion = async (question: Question) => {
+        setRegeneratingId(question.id);
         try {
-            const backendUrl = process.env.NEXT_PUBLIC_API_URL || "http://localhost:5002";
-            const response = await fetch(`${backendUrl}/api/generate-follow-up`, {
+            const response = await fetch("/api/generate-questions", {
                 method: "POST",
                 headers: {
                     "Content-Type": "application/json",
                 },
                 body: JSON.stringify({
-                    originalQuestion: questions[currentQuestionIndex]?.question,
-                    answer: currentAnswer,
+                    ...generationRequest(),
+                    difficulty: question.difficulty,
+                    questionMix: Object.fromEntries(
+                        QUESTION_TYPES.map((type) => [type, type === question.type ? 1 : 0])
+                    ) as QuestionMix,
+                    replacement: true,
+                    exclude: questions.map((q) => q.question),
                 }),
             });
 
             if (!response.ok) {
-                throw new Error("Failed to get follow-up question");
+                throw new Error("Failed to regenerate question");
             }
 
-            const data = await response.json();
-            setFollowUpQuestion(data.followUpQuestion);
+            const data: GenerateQuestionsResponse = await response.json();
+            const replacement = data.questions?.find(
+                (q) => !questions.some((existing) => existing.question === q.question)
+            );
+            if (!replacement) {
+                toast("Couldn't find a different question. Try again or edit this one.");
+                return;
+            }
+
+            // It stands in for the old question's company stage and time limit
+            dispatch({
+                type: "REPLACE_QUESTION",
+                questionId: question.id,
+                question: {
+                    ...replacement,
+                    id: questions.some((q) => q.id === replacement.id)
+                        ? crypto.randomUUID()
+                        : replacement.id,
+                    ...(question.stage ? { stage: question.stage } : {}),
+                    ...(question.timeLimit ? { timeLimit: question.timeLimit } : {}),
+                },
+            });
+        } catch (err) {
+            console.error("Error regenerating question:", err);
+            toast.error("Failed to regenerate the question. Please try again.");
+        } finally {
+            setRegeneratingId(null);
+        }
+    };
+
+    // The edited list replaces the saved question set, so it's what gets practised later too
+    const handleStartEditedInterview = async () => {
+        if (questionsEdited && questionSetId && status === "authenticated") {
+            setIsLoading(true);
+            try {
+                const response = await fetch(`/api/question-sets/${questionSetId}`, {
+                    method: "PUT",
+                    headers: {
+                        "Content-Type": "application/json",
+                    },
+                    body: JSON.stringify({ questions }),
+                });
+                if (!response.ok) {
+                    throw new Error("Failed to save question set");
+                }
+            } catch (err) {
+                console.error("Error saving edited questions:", err);
+                toast.error(
+                    "Couldn't save your edited questions, but you can still practise them."
+                );
+            } finally {
+                setIsLoading(false);
+            }
+        }
+        startMockInterview();
+    };
+
+    const requestFollowUp = async () => {
+        if (!currentResponse || followUps.length >= followUpDepth) return;
+
+        setError("");
+        try {
+            const data = await followUpStream.start("/api/generate-follow-up/stream", {
+                originalQuestion: currentResponse.question,
+                answer: answerWithDiagram(currentResponse.answer, currentResponse.diagram),
+                previousTurns: followUps.map(({ question, answer }) => ({ question, answer })),
+            });
+
+            // Cancelled by the user
+            if (!data) return;
+
+            dispatch({ type: "FOLLOW_UP", question: data.followUpQuestion });
         } catch (err) {
             console.error("Error fetching follow-up:", err);
-            setFollowUpQuestion(
-                "Sorry, I couldn't generate a follow-up. Please proceed to the next question."
-            );
+            setError("Sorry, I couldn't generate a follow-up. Please try again or move on.");
+        }
+    };
+
+    const submitFollowUpAnswer = async () => {
+        const openTurn = followUps[followUps.length - 1];
+        if (!openTurn || openTurn.feedback || !followUpAnswer.trim()) return;
+
+        setError("");
+        try {
+            const answer = followUpAnswer;
+            const data = await followUpFeedbackStream.start("/api/generate-feedback/stream", {
+                question: openTurn.question,
+                answer,
+                checkResume: useResume,
+            });
+
+            // Cancelled by the user; keep the draft so they can edit and resubmit
+            if (!data) return;
+
+            dispatch({ type: "ANSWER_FOLLOW_UP", answer, feedback: data.feedback });
+        } catch (err) {
+            setError("Failed to get feedback on your follow-up. Please try again.");
+            console.error("Error:", err);
+        }
+    };
+
+    // Runs the draft against the hidden tests, reusing the last run if the code hasn't changed
+    const runTests = async (): Promise<CodeRunResult | null> => {
+        const challenge = currentQuestion?.coding;
+        if (!challenge) return null;
+        if (codeRun?.code === currentAnswer) return codeRun.result;
+
+        const code = currentAnswer;
+        setIsRunningCode(true);
+        try {
+            const result = await runCode(challenge, code);
+            setCodeRun({ code, result });
+            return result;
         } finally {
-            setIsFetchingFollowUp(false);
+            setIsRunningCode(false);
         }
     };
 
-    const submitAnswer = async () => {
-        if (!currentAnswer.trim()) {
+    const handleRunTests = () => {
+        setError("");
+        runTests().catch((err) => {
+            setError("Couldn't run your code in this browser.");
+            console.error("Error running code:", err);
+        });
+    };
+
+    const submitAnswer = async (autoSubmitted = false) => {
+        if (!hasAnswer) {
             setError("Please provide an answer before submitting");
             return;
         }
 
-        if (timerIntervalRef.current) {
-            clearInterval(timerIntervalRef.current);
+        setError("");
+
+        try {
+            const answer = currentAnswer;
+            const challenge = currentQuestion?.coding;
+            // Code is marked with its test results; a runner failure shouldn't block feedback
+            const run = challenge ? await runTests().catch(() => null) : null;
+            const data = await feedbackStream.start("/api/generate-feedback/stream", {
+                interviewId,
+                questionId: currentQuestion?.id,
+                question: currentQuestion?.question,
+                answer,
+                timeSpent: timer, // Send time spent
+                timeLimit,
+                checkResume: useResume,
+                codeRun: challenge && run ? summarizeCodeRun(challenge, run) : undefined,
+                diagram: isSystemDesignQuestion ? currentDiagram : undefined,
+            });
+
+            // Cancelled by the user; keep the draft so they can edit and resubmit
+            if (!data) return;
+
+            // A revision recorded with a new take no longer needs the old audio
+            const previousRecordingId = currentResponse?.recordingId;
+            if (previousRecordingId && previousRecordingId !== currentRecordingId) {
+                deleteRecording(previousRecordingId).catch(() => undefined);
+            }
+
+            dispatch({
+                type: "SUBMIT",
+                answer,
+                feedback: data.feedback,
+                autoSubmitted,
+                codeRun: run ?? undefined,
+            });
+            setShowVoiceRecorder(false);
+        } catch (err) {
+            setError("Failed to get feedback. Please try again.");
+            console.error("Error:", err);
         }
+    };
 
-        setIsSubmittingAnswer(true);
+    const handleRecordingComplete = async (blob: Blob, duration: number) => {
+        setIsTranscribing(true);
         setError("");
 
         try {
-            const backendUrl = process.env.NEXT_PUBLIC_API_URL || "http://localhost:5002";
-            const response = await fetch(`${backendUrl}/api/generate-feedback`, {
+            // Keep the audio with the answer; a new take replaces the previous unsubmitted one
+            const recordingId = await saveRecording(blob, duration).catch((err) => {
+                console.error("Error saving recording:", err);
+                return null;
+            });
+            if (currentRecordingId && currentRecordingId !== currentResponse?.recordingId) {
+                deleteRecording(currentRecordingId).catch(() => undefined);
+            }
+            dispatch({ type: "ATTACH_RECORDING", recordingId });
+
+            const formData = new FormData();
+            formData.append("audio", blob, "answer.webm");
+            formData.append("duration", String(duration));
+
+            const response = await fetch("/api/transcribe", {
                 method: "POST",
-                headers: {
-                    "Content-Type": "application/json",
-                },
-                body: JSON.stringify({
-                    question: questions[currentQuestionIndex]?.question,
-                    answer: currentAnswer,
-                    timeSpent: timer, // Send time spent
-                }),
+                body: formData,
             });
 
+            const data = await response.json();
             if (!response.ok) {
-                throw new Error("Failed to get feedback");
+                throw new Error(data.details || data.error || "Failed to transcribe audio");
             }
 
-            const data = await response.json();
-            setFeedback(data.feedback || "Good response! Keep practicing to improve further.");
-            setShowFeedback(true);
+            dispatch({ type: "APPEND_TRANSCRIPT", transcript: data.transcript });
+            toast.success("Transcript added. Review and edit it before submitting.");
         } catch (err) {
-            setError("Failed to get feedback. Please try again.");
+            setError("Couldn't transcribe your recording. You can still type your answer.");
             console.error("Error:", err);
         } finally {
-            setIsSubmittingAnswer(false);
+            setIsTranscribing(false);
         }
     };
 
-    const nextQuestion = () => {
-        if (currentQuestionIndex < questions.length - 1) {
-            setCurrentQuestionIndex(currentQuestionIndex + 1);
-            setCurrentAnswer("");
-            setFeedback("");
-            setShowFeedback(false);
-            setFollowUpQuestion("");
-            setError("");
-            setTimer(0);
+    const handleTimeUp = () => {
+        if (showFeedback || feedbackStream.isStreaming) return;
+
+        if (timeUpBehavior === "auto-submit" && hasAnswer) {
+            toast("⏰ Time's up! Submitting your answer.");
+            submitAnswer(true);
         } else {
-            // Interview complete
-            setCurrentStep("complete");
+            // Flagged: keep answering while the overtime counts against the question
+            toast.error("⏰ Time's up! Overtime is now being tracked.");
         }
     };
 
-    const resetToHome = () => {
-        setCurrentStep("input");
-        setQuestions([]);
-        setJobRole("");
-        setCompany("");
+    const moveTo = (event: "NEXT" | "SKIP" | "BACK" | "FINISH") => {
+        leaveQuestion();
+        dispatch({ type: event });
+    };
+
+    const reviseAnswer = () => {
+        followUpStream.reset();
+        followUpFeedbackStream.reset();
+        dispatch({ type: "REVISE" });
+    };
+
+    const resumeSession = () => {
+        if (!resumableSession) return;
+
         setError("");
-        setCurrentQuestionIndex(0);
-        setCurrentAnswer("");
-        setFeedback("");
-        setShowFeedback(false);
-        setFollowUpQuestion("");
-        setTimer(0);
+        dispatch({ type: "RESUME", session: resumableSession });
+        setResumableSession(null);
+    };
+
+    const discardSession = () => {
+        clearInterviewSession();
+        setResumableSession(null);
+    };
+
+    const resetToHome = () => {
+        leaveQuestion();
+        clearInterviewSession();
+        setResumableSession(null);
+        dispatch({ type: "RESET" });
     };
 
     return (
@@ -305,6 +573,60 @@ export default function Home() {
                                 </p>
                             </div>
 
+                            {/* Resume Prompt */}
+                            {resumableSession && (
+                                <div className="card w-full max-w-4xl mb-8 animate-fadeIn">
+                                    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                                        <div className="flex items-start gap-3">
+                                            <RotateCcw
+                                                size={22}
+                                                className="mt-1 flex-shrink-0"
+                                                style={{ color: "var(--accent)" }}
+                                            />
+                                            <div>
+                                                <p
+                                                    className="text-lg font-medium"
+                                                    style={{ color: "var(--foreground)" }}
+                                                >
+                                                    Resume interview
+                                                </p>
+                                                <p
+                                                    className="text-sm"
+                                                    style={{ color: "var(--text-secondary)" }}
+                                                >
+                                                    {resumableSession.jobRole} at{" "}
+                                                    {resumableSession.company} ·{" "}
+                                                    {resumableSession.currentStep === "mock"
+                                                        ? `Question ${
+                                                              resumableSession.currentQuestionIndex +
+                                                              1
+                                                          } of ${resumableSession.questions.length}`
+                                                        : `${resumableSession.questions.length} questions generated`}{" "}
+                                                    · Last saved{" "}
+                                                    {new Date(
+                                                        resumableSession.updatedAt
+                                                    ).toLocaleString()}
+                                                </p>
+                                            </div>
+                                        </div>
+                                        <div className="flex gap-3">
+                                            <button
+                                                onClick={discardSession}
+                                                className="btn-secondary px-6 py-2"
+                                            >
+                                                Discard
+                                            </button>
+                                            <button
+                                                onClick={resumeSession}
+                                                className="btn-primary px-6 py-2"
+                                            >
+                                                Resume
+                                            </button>
+                                        </div>
+                                    </div>
+                                </div>
+                            )}
+
                             {/* Input Form - Card with Pure White Background (60% rule) */}
                             <div className="card w-full max-w-4xl">
                                 <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
@@ -322,7 +644,9 @@ export default function Home() {
                                                 type="text"
                                                 placeholder="e.g., Software Engineer"
                                                 value={jobRole}
-                                                onChange={(e) => setJobRole(e.target.value)}
+                                                onChange={(e) =>
+                                                    configure({ jobRole: e.target.value })
+                                                }
                                                 className="w-full text-lg bg-transparent border-0 border-b-2 px-0 py-3"
                                                 style={{
                                                     borderBottomColor: "var(--border)",
@@ -350,8 +674,9 @@ export default function Home() {
                                             <input
                                                 type="text"
                                                 placeholder="e.g., Google"
+                                                list="company-profiles"
                                                 value={company}
-                                                onChange={(e) => setCompany(e.target.value)}
+                                                onChange={(e) => selectCompany(e.target.value)}
                                                 className="w-full text-lg bg-transparent border-0 border-b-2 px-0 py-3"
                                                 style={{
                                                     borderBottomColor: "var(--border)",
@@ -366,6 +691,11 @@ export default function Home() {
                                                     "var(--border)")
                                                 }
                                             />
+                                            <datalist id="company-profiles">
+                                                {COMPANY_PROFILES.map((profile) => (
+                                                    <option key={profile.id} value={profile.name} />
+                                                ))}
+                                            </datalist>
                                         </div>
 
                                         <div className="space-y-3">
@@ -381,7 +711,9 @@ export default function Home() {
                                             </label>
                                             <select
                                                 value={seniority}
-                                                onChange={(e) => setSeniority(e.target.value)}
+                                                onChange={(e) =>
+                                                    configure({ seniority: e.target.value })
+                                                }
                                                 className="w-full text-base bg-white border-2 rounded-lg px-4 py-3 cursor-pointer"
                                                 style={{
                                                     borderColor: "var(--border)",
@@ -398,6 +730,39 @@ export default function Home() {
                                                 </option>
                                             </select>
                                         </div>
+
+                                        <div className="space-y-3">
+                                            <label
+                                                className="flex items-center gap-2 text-base font-medium"
+                                                style={{ color: "var(--text-secondary)" }}
+                                            >
+                                                <MessagesSquare size={20} />
+                                                Follow-up Depth
+                                            </label>
+                                            <select
+                                                value={followUpDepth}
+                                                onChange={(e) =>
+                                                    configure({
+                                                        followUpDepth: Number(e.target.value),
+                                                    })
+                                                }
+                                                className="w-full text-base bg-white border-2 rounded-lg px-4 py-3 cursor-pointer"
+                                                style={{
+                                                    borderColor: "var(--border)",
+                                                    color: "var(--foreground)",
+                                                }}
+                                            >
+                                                {Array.from(
+                                                    { length: MAX_FOLLOW_UP_DEPTH },
+                                                    (_, i) => i + 1
+                                                ).map((depth) => (
+                                                    <option key={depth} value={depth}>
+                                                        Up to {depth} follow-up
+                                                        {depth === 1 ? "" : "s"} per question
+                                                    </option>
+                                                ))}
+                                            </select>
+                                        </div>
                                     </div>
 
                                     {/* Right Column */}
@@ -416,7 +781,9 @@ export default function Home() {
                                                         <button
                                                             key={level}
                                                             type="button"
-                                                            onClick={() => setDifficulty(level)}
+                                                            onClick={() =>
+                                                                configure({ difficulty: level })
+                                                            }
                                                             className={`py-3 px-4 rounded-lg font-medium transition-all ${difficulty === level
                                                                 ? "bg-blue-600 text-white scale-105"
                                                                 : "bg-gray-100 text-gray-700 hover:bg-gray-200"
@@ -430,41 +797,94 @@ export default function Home() {
                                             </div>
                                         </div>
 
+                                        <QuestionMixBuilder
+                                            mix={questionMix}
+                                            difficulty={difficulty}
+                                            types={mixTypes}
+                                            onChange={(mix) => configure({ questionMix: mix })}
+                                        />
+
                                         <div className="space-y-3">
                                             <label
                                                 className="flex items-center gap-2 text-base font-medium"
                                                 style={{ color: "var(--text-secondary)" }}
                                             >
-                                                <ListChecks size={20} />
-                                                Question Type{" "}
+                                                <Timer size={20} />
+                                                Timed Mode{" "}
                                                 <span className="text-sm opacity-60">
                                                     (Optional)
                                                 </span>
                                             </label>
-                                            <select
-                                                value={questionType}
-                                                onChange={(e) =>
-                                                    setQuestionType(
-                                                        e.target.value as
-                                                        | "behavioral"
-                                                        | "technical"
-                                                        | "situational"
-                                                        | "all"
-                                                    )
-                                                }
-                                                className="w-full text-base bg-white border-2 rounded-lg px-4 py-3 cursor-pointer"
-                                                style={{
-                                                    borderColor: "var(--border)",
-                                                    color: "var(--foreground)",
-                                                }}
+                                            <div className="grid grid-cols-3 gap-3">
+                                                {(
+                                                    [
+                                                        ["off", "Off"],
+                                                        ["auto-submit", "Auto-submit"],
+                                                        ["flag", "Flag overtime"],
+                                                    ] as const
+                                                ).map(([value, label]) => {
+                                                    const selected =
+                                                        value === "off"
+                                                            ? !timedMode
+                                                            : timedMode && timeUpBehavior === value;
+                                                    return (
+                                                        <button
+                                                            key={value}
+                                                            type="button"
+                                                            onClick={() => {
+                                                                configure(
+                                                                    value === "off"
+                                                                        ? { timedMode: false }
+                                                                        : {
+                                                                              timedMode: true,
+                                                                              timeUpBehavior: value,
+                                                                          }
+                                                                );
+                                                            }}
+                                                            className={`py-3 px-4 rounded-lg font-medium transition-all ${
+                                                                selected
+                                                                    ? "bg-blue-600 text-white scale-105"
+                                                                    : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                                                            }`}
+                                                        >
+                                                            {label}
+                                                        </button>
+                                                    );
+                                                })}
+                                            </div>
+                                        </div>
+
+                                        <div className="space-y-3">
+                                            <label
+                                                className="flex items-center gap-2 text-base font-medium"
+                                                style={{ color: "var(--text-secondary)" }}
                                             >
-                                                <option value="all">All Types</option>
-                                                <option value="behavioral">Behavioral Only</option>
-                                                <option value="technical">Technical Only</option>
-                                                <option value="situational">
-                                                    Situational Only
-                                                </option>
-                                            </select>
+                                                <WifiOff size={20} />
+                                                Question Source
+                                            </label>
+                                            <div className="grid grid-cols-2 gap-3">
+                                                {(
+                                                    [
+                                                        [false, "AI-generated"],
+                                                        [true, "Offline bank"],
+                                                    ] as const
+                                                ).map(([offline, label]) => (
+                                                    <button
+                                                        key={label}
+                                                        type="button"
+                                                        onClick={() =>
+                                                            configure({ offlineMode: offline })
+                                                        }
+                                                        className={`py-3 px-4 rounded-lg font-medium transition-all ${
+                                                            offlineMode === offline
+                                                                ? "bg-blue-600 text-white scale-105"
+                                                                : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                                                        }`}
+                                                    >
+                                                        {label}
+                                                    </button>
+                                                ))}
+                                            </div>
                                         </div>
 
                                         <div className="space-y-3">
@@ -472,27 +892,31 @@ export default function Home() {
                                                 className="flex items-center gap-2 text-base font-medium"
                                                 style={{ color: "var(--text-secondary)" }}
                                             >
-                                                <Hash size={20} />
-                                                Number of Questions
+                                                <History size={20} />
+                                                Answered Questions
                                             </label>
-                                            <div className="grid grid-cols-4 gap-3">
-                                                {[5, 10, 15, 20].map((num) => (
+                                            <div className="grid grid-cols-2 gap-3">
+                                                {(
+                                                    [
+                                                        [false, "Avoid repeats"],
+                                                        [true, "Revisit weak ones"],
+                                                    ] as const
+                                                ).map(([revisit, label]) => (
                                                     <button
-                                                        key={num}
+                                                        key={label}
                                                         type="button"
-                                                        onClick={() => {
-                                                            console.log(
-                                                                "Setting questions to:",
-                                                                num
-                                                            );
-                                                            setNumberOfQuestions(num);
-                                                        }}
-                                                        className={`py-3 px-4 rounded-lg font-medium transition-all ${numberOfQuestions === num
-                                                            ? "bg-blue-600 text-white scale-105"
-                                                            : "bg-gray-100 text-gray-700 hover:bg-gray-200"
-                                                            }`}
+                                                        onClick={() =>
+                                                            configure({
+                                                                revisitWeakQuestions: revisit,
+                                                            })
+                                                        }
+                                                        className={`py-3 px-4 rounded-lg font-medium transition-all ${
+                                                            revisitWeakQuestions === revisit
+                                                                ? "bg-blue-600 text-white scale-105"
+                                                                : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                                                        }`}
                                                     >
-                                                        {num}
+                                                        {label}
                                                     </button>
                                                 ))}
                                             </div>
@@ -500,11 +924,49 @@ export default function Home() {
                                     </div>
                                 </div>
 
+                                {companyProfile && (
+                                    <div className="mt-8">
+                                        <CompanyProfileCard
+                                            profile={companyProfile}
+                                            seniority={seniority}
+                                            jobRole={jobRole}
+                                            onApplyFormat={() =>
+                                                configure({
+                                                    questionMix: profileQuestionMix(
+                                                        companyProfile,
+                                                        seniority,
+                                                        jobRole
+                                                    ),
+                                                })
+                                            }
+                                        />
+                                    </div>
+                                )}
+
+                                <div className="mt-8">
+                                    <JobDescriptionInput
+                                        value={jobDescription}
+                                        onChange={(value) => configure({ jobDescription: value })}
+                                    />
+                                </div>
+
+                                <div className="mt-8">
+                                    <ResumeToggle
+                                        enabled={useResume}
+                                        onChange={(enabled) => configure({ useResume: enabled })}
+                                    />
+                                </div>
+
                                 {/* Generate Button */}
                                 <div className="mt-10">
                                     <button
                                         onClick={handleGenerateQuestions}
-                                        disabled={isLoading || !jobRole.trim() || !company.trim()}
+                                        disabled={
+                                            isLoading ||
+                                            !jobRole.trim() ||
+                                            !company.trim() ||
+                                            mixTotal(questionMix) === 0
+                                        }
                                         className="btn-primary w-full text-lg py-4 flex items-center justify-center gap-2"
                                     >
                                         {isLoading ? (
@@ -535,50 +997,73 @@ export default function Home() {
                         <div className="space-y-8 animate-fadeIn">
                             <div className="text-center">
                                 <h2
-                                    className="text-3xl font-light mb-12"
+                                    className="text-3xl font-light mb-4"
                                     style={{ color: "var(--foreground)" }}
                                 >
                                     Your Interview Questions
                                 </h2>
+                                <span
+                                    className={`inline-flex items-center gap-1 text-xs px-3 py-1 rounded-full mb-8 ${
+                                        questionSource === "bank"
+                                            ? "bg-amber-100 text-amber-800"
+                                            : questionSource === "history"
+                                              ? "bg-orange-100 text-orange-800"
+                                              : "bg-blue-100 text-blue-800"
+                                    }`}
+                                >
+                                    {questionSource === "bank" ? (
+                                        <>
+                                            <BookOpen size={14} />
+                                            From the offline question bank
+                                        </>
+                                    ) : questionSource === "history" ? (
+                                        <>
+                                            <History size={14} />
+                                            Questions you found hard before
+                                        </>
+                                    ) : (
+                                        <>
+                                            <Sparkles size={14} />
+                                            AI-generated for this role
+                                        </>
+                                    )}
+                                </span>
                             </div>
 
-                            <div className="space-y-4 max-w-4xl mx-auto">
-                                {questions.map((questionObj, index) => (
-                                    <div key={questionObj.id || index} className="card">
-                                        <div className="flex items-start space-x-4">
-                                            <div
-                                                className="flex-shrink-0 w-10 h-10 rounded-full flex items-center justify-center text-sm font-medium text-white"
-                                                style={{ backgroundColor: "var(--accent)" }}
-                                            >
-                                                {index + 1}
-                                            </div>
-                                            <div className="flex-1">
-                                                <div className="flex items-center gap-2 mb-2">
-                                                    <span className="text-xs px-2 py-1 rounded-full bg-blue-100 text-blue-800">
-                                                        {questionObj.type}
-                                                    </span>
-                                                    <span className="text-xs px-2 py-1 rounded-full bg-gray-100 text-gray-700">
-                                                        {questionObj.difficulty}
-                                                    </span>
-                                                </div>
-                                                <p
-                                                    className="text-lg leading-relaxed"
-                                                    style={{ color: "var(--foreground)" }}
-                                                >
-                                                    {questionObj.question}
-                                                </p>
-                                            </div>
-                                        </div>
-                                    </div>
-                                ))}
-                            </div>
+                            {hasJobRequirements && (
+                                <RequirementCoverage
+                                    jobDescription={jobRequirements}
+                                    questions={questions}
+                                />
+                            )}
+
+                            <QuestionListEditor
+                                questions={questions}
+                                types={mixTypes}
+                                timedMode={timedMode}
+                                regeneratingId={regeneratingId}
+                                onMove={(from, to) => dispatch({ type: "MOVE_QUESTION", from, to })}
+                                onRemove={(questionId) =>
+                                    dispatch({ type: "REMOVE_QUESTION", questionId })
+                                }
+                                onUpdate={(questionId, changes) =>
+                                    dispatch({ type: "UPDATE_QUESTION", questionId, changes })
+                                }
+                                onRegenerate={handleRegenerateQuestion}
+                                onAdd={(question) => dispatch({ type: "ADD_QUESTION", question })}
+                            />
 
                             <div className="flex flex-col sm:flex-row gap-4 justify-center mt-16">
                                 <button onClick={resetToHome} className="btn-secondary px-8 py-3">
                                     Generate New Questions
                                 </button>
                                 <button
-                                    onClick={startMockInterview}
+                                    onClick={handleStartEditedInterview}
+                                    disabled={
+                                        questions.length === 0 ||
+                                        isLoading ||
+                                        regeneratingId !== null
+                                    }
                                     className="btn-primary px-8 py-3"
                                 >
                                     Start Mock Interview
@@ -592,7 +1077,9 @@ export default function Home() {
                         <div className="space-y-8 animate-fadeIn max-w-4xl mx-auto">
                             <div className="flex justify-between items-center">
                                 <p className="text-sm" style={{ color: "var(--text-secondary)" }}>
-                                    Question {currentQuestionIndex + 1} of {questions.length}
+                                    Question {currentQuestionIndex + 1} of {questions.length} ·{" "}
+                                    {responses.length} answered
+                                    {questionSource === "bank" && " · offline question bank"}
                                 </p>
                                 <div className="flex items-center gap-4">
                                     <p
@@ -601,6 +1088,21 @@ export default function Home() {
                                     >
                                         {formatTime(timer)}
                                     </p>
+                                    {overtime > 0 && (
+                                        <span className="text-sm font-mono px-2 py-1 rounded-md bg-red-100 text-red-700">
+                                            +{formatTime(overtime)} over
+                                        </span>
+                                    )}
+                                    {responses.length > 0 && (
+                                        <button
+                                            onClick={() => moveTo("FINISH")}
+                                            disabled={isBusy}
+                                            className="text-sm hover:underline"
+                                            style={{ color: "var(--accent)" }}
+                                        >
+                                            Finish
+                                        </button>
+                                    )}
                                     <button
                                         onClick={resetToHome}
                                         className="text-sm hover:underline"
@@ -611,6 +1113,17 @@ export default function Home() {
                                 </div>
                             </div>
 
+                            {timeLimit !== null && !showFeedback && (
+                                <QuestionTimer
+                                    key={`${currentQuestionIndex}-${currentQuestion?.id}`}
+                                    duration={timeLimit}
+                                    initialRemaining={Math.max(timeLimit - timer, 0)}
+                                    onTimeUp={handleTimeUp}
+                                    paused={feedbackStream.isStreaming}
+                                    showControls={false}
+                                />
+                            )}
+
                             <div className="card">
                                 <div className="space-y-8">
                                     <div>
@@ -622,116 +1135,294 @@ export default function Home() {
                                                 className="font-medium"
                                                 style={{ color: "var(--accent)" }}
                                             >
-                                                Question {currentQuestionIndex + 1}:
+                                                Question {currentQuestionIndex + 1}
+                                                {currentQuestion?.stage &&
+                                                    ` · ${currentQuestion.stage}`}
+                                                :
                                             </span>
                                             <br />
                                             <br />
                                             {questions[currentQuestionIndex]?.question}
                                         </h3>
                                     </div>
-                                    <div className="relative">
-                                        <textarea
+                                    {isSystemDesignQuestion && (
+                                        <DiagramCanvas
+                                            diagram={currentDiagram ?? emptyDiagram()}
+                                            onChange={(diagram) =>
+                                                dispatch({ type: "EDIT_DIAGRAM", diagram })
+                                            }
+                                            readOnly={showFeedback}
+                                        />
+                                    )}
+                                    {isCodingQuestion ? (
+                                        <CodeEditor
                                             value={currentAnswer}
-                                            onChange={(e) => setCurrentAnswer(e.target.value)}
-                                            placeholder="Type your answer here..."
-                                            className="w-full min-h-[150px] p-0 border-0 border-b-2 text-base leading-relaxed resize-none"
-                                            style={{
-                                                backgroundColor: "transparent",
-                                                borderBottomColor: "var(--border)",
-                                                color: "var(--foreground)",
-                                                outline: "none",
-                                            }}
-                                            onFocus={(e) =>
-                                                (e.target.style.borderBottomColor = "var(--accent)")
+                                            language={
+                                                currentQuestion?.coding?.language ?? "javascript"
                                             }
-                                            onBlur={(e) =>
-                                                (e.target.style.borderBottomColor = "var(--border)")
+                                            onChange={(answer) =>
+                                                dispatch({ type: "EDIT_ANSWER", answer })
                                             }
-                                            onInput={(e) => {
-                                                const target = e.target as HTMLTextAreaElement;
-                                                target.style.height = "auto";
-                                                target.style.height =
-                                                    Math.max(150, target.scrollHeight) + "px";
-                                            }}
+                                            readOnly={showFeedback}
                                         />
-                                    </div>
+                                    ) : (
+                                        <div className="relative">
+                                            <textarea
+                                                value={currentAnswer}
+                                                onChange={(e) =>
+                                                    dispatch({
+                                                        type: "EDIT_ANSWER",
+                                                        answer: e.target.value,
+                                                    })
+                                                }
+                                                readOnly={showFeedback}
+                                                placeholder={
+                                                    isSystemDesignQuestion
+                                                        ? "Write down your assumptions, requirements and trade-offs..."
+                                                        : "Type your answer here..."
+                                                }
+                                                className="w-full min-h-[150px] p-0 border-0 border-b-2 text-base leading-relaxed resize-none"
+                                                style={{
+                                                    backgroundColor: "transparent",
+                                                    borderBottomColor: "var(--border)",
+                                                    color: "var(--foreground)",
+                                                    outline: "none",
+                                                }}
+                                                onFocus={(e) =>
+                                                    (e.target.style.borderBottomColor =
+                                                        "var(--accent)")
+                                                }
+                                                onBlur={(e) =>
+                                                    (e.target.style.borderBottomColor =
+                                                        "var(--border)")
+                                                }
+                                                onInput={(e) => {
+                                                    const target = e.target as HTMLTextAreaElement;
+                                                    target.style.height = "auto";
+                                                    target.style.height =
+                                                        Math.max(150, target.scrollHeight) + "px";
+                                                }}
+                                            />
+                                        </div>
+                                    )}
+
+                                    {!showFeedback && isCodingQuestion && (
+                                        <div className="space-y-4">
+                                            {currentQuestion?.coding ? (
+                                                <div className="flex flex-wrap items-center gap-3">
+                                                    <button
+                                                        type="button"
+                                                        onClick={handleRunTests}
+                                                        disabled={isBusy}
+                                                        className="btn-secondary px-6 py-2 flex items-center gap-2"
+                                                    >
+                                                        <Play size={18} />
+                                                        {isRunningCode
+                                                            ? "Running tests..."
+                                                            : "Run tests"}
+                                                    </button>
+                                                    <p
+                                                        className="text-sm"
+                                                        style={{ color: "var(--text-secondary)" }}
+                                                    >
+                                                        Runs stop after {RUN_TIME_LIMIT_MS / 1000}{" "}
+                                                        seconds. Memory is only capped in Chrome, at
+                                                        128 MB, and checked between tests.
+                                                    </p>
+                                                </div>
+                                            ) : (
+                                                <p
+                                                    className="text-sm"
+                                                    style={{ color: "var(--text-secondary)" }}
+                                                >
+                                                    This question has no tests to run. Your code
+                                                    still goes in for feedback.
+                                                </p>
+                                            )}
+                                            {codeRun && <CodeRunResults run={codeRun.result} />}
+                                        </div>
+                                    )}
+
+                                    {!showFeedback && !isCodingQuestion && (
+                                        <div className="space-y-4">
+                                            {showVoiceRecorder ? (
+                                                <VoiceRecorder
+                                                    key={currentQuestionIndex}
+                                                    onRecordingComplete={handleRecordingComplete}
+                                                    maxDuration={timeLimit ?? 300}
+                                                />
+                                            ) : (
+                                                <button
+                                                    type="button"
+                                                    onClick={() => setShowVoiceRecorder(true)}
+                                                    className="btn-secondary px-6 py-2 flex items-center gap-2"
+                                                >
+                                                    <Mic size={18} />
+                                                    Speak your answer
+                                                </button>
+                                            )}
+                                            {isTranscribing && (
+                                                <p
+                                                    className="text-sm flex items-center gap-2"
+                                                    style={{ color: "var(--text-secondary)" }}
+                                                >
+                                                    <span className="loading-spinner inline-block"></span>
+                                                    Transcribing your recording...
+                                                </p>
+                                            )}
+                                        </div>
+                                    )}
                                 </div>
                             </div>
 
-                            {!showFeedback ? (
-                                <button
-                                    onClick={submitAnswer}
-                                    disabled={isSubmittingAnswer || !currentAnswer.trim()}
-                                    className="btn-primary w-full py-4"
-                                >
-                                    {isSubmittingAnswer ? (
-                                        <span className="flex items-center justify-center space-x-2">
-                                            <div className="loading-spinner"></div>
-                                            <span>Thinking...</span>
-                                        </span>
-                                    ) : (
-                                        "Submit Answer"
-                                    )}
-                                </button>
-                            ) : (
-                                <div className="space-y-6 animate-fadeIn">
+                            {!showFeedback && feedbackStream.isStreaming ? (
+                                <div className="space-y-4 animate-fadeIn">
                                     <div
                                         className="card"
                                         style={{ backgroundColor: "var(--muted)" }}
                                     >
                                         <h4
-                                            className="font-medium mb-4 text-sm uppercase tracking-wide"
+                                            className="font-medium mb-4 text-sm uppercase tracking-wide flex items-center gap-2"
                                             style={{ color: "var(--text-secondary)" }}
                                         >
+                                            <div className="loading-spinner"></div>
                                             AI Feedback:
                                         </h4>
                                         <p
                                             className="leading-relaxed text-base"
                                             style={{ color: "var(--foreground)" }}
                                         >
-                                            {feedback}
+                                            {feedbackStream.text || "Thinking..."}
                                         </p>
                                     </div>
+                                    <button
+                                        onClick={feedbackStream.cancel}
+                                        className="btn-secondary w-full py-4"
+                                    >
+                                        Cancel
+                                    </button>
+                                </div>
+                            ) : !showFeedback ? (
+                                <div className="flex flex-col sm:flex-row gap-4">
+                                    <button
+                                        onClick={() => moveTo("BACK")}
+                                        disabled={currentQuestionIndex === 0 || isBusy}
+                                        className="btn-secondary px-6 py-4"
+                                    >
+                                        ← Back
+                                    </button>
+                                    <button
+                                        onClick={() => submitAnswer()}
+                                        disabled={!hasAnswer || isTranscribing || isRunningCode}
+                                        className="btn-primary flex-1 py-4"
+                                    >
+                                        {isRunningCode ? "Running tests..." : "Submit Answer"}
+                                    </button>
+                                    <button
+                                        onClick={() => moveTo("SKIP")}
+                                        disabled={isBusy}
+                                        className="btn-secondary px-6 py-4"
+                                    >
+                                        {currentResponse ? "Keep Previous Answer →" : "Skip →"}
+                                    </button>
+                                </div>
+                            ) : (
+                                <div className="space-y-6 animate-fadeIn">
+                                    <div
+                                        className="card"
+                                        style={{ backgroundColor: "var(--muted)" }}
+                                    >
+                                        <h4
+                                            className="font-medium mb-4 text-sm uppercase tracking-wide"
+                                            style={{ color: "var(--text-secondary)" }}
+                                        >
+                                            AI Feedback:
+                                        </h4>
+                                        {currentResponse && currentResponse.timeLimit !== null && (
+                                            <p className="text-sm mb-4 text-gray-600">
+                                                {currentResponse.autoSubmitted
+                                                    ? "Auto-submitted when time ran out. "
+                                                    : ""}
+                                                Answered in {formatTime(currentResponse.timeSpent)}{" "}
+                                                of {formatTime(currentResponse.timeLimit)}
+                                                {answeredOvertime > 0 && (
+                                                    <span className="ml-2 px-2 py-0.5 rounded-md bg-red-100 text-red-700">
+                                                        +{formatTime(answeredOvertime)} over
+                                                    </span>
+                                                )}
+                                            </p>
+                                        )}
+                                        {currentResponse?.codeRun && (
+                                            <div className="mb-4">
+                                                <CodeRunResults run={currentResponse.codeRun} />
+                                            </div>
+                                        )}
+                                        {feedback && (
+                                            <>
+                                                <div className="flex items-baseline justify-between gap-4 mb-4">
+                                                    <p
+                                                        className="leading-relaxed text-base"
+                                                        style={{ color: "var(--foreground)" }}
+                                                    >
+                                                        {feedback.summary}
+                                                    </p>
+                                                    <span
+                                                        className="text-2xl font-bold whitespace-nowrap"
+                                                        style={{ color: "var(--accent)" }}
+                                                    >
+                                                        {feedback.overallScore}/10
+                                                    </span>
+                                                </div>
+                                                <FeedbackBreakdown
+                                                    relevanceScore={feedback.relevanceScore}
+                                                    clarityScore={feedback.clarityScore}
+                                                    depthScore={feedback.depthScore}
+                                                    strengths={feedback.strengths}
+                                                    improvements={feedback.improvements}
+                                                    resumeNotes={feedback.resumeNotes}
+                                                />
+                                            </>
+                                        )}
+                                    </div>
+
+                                    <FollowUpThread
+                                        turns={followUps}
+                                        maxDepth={followUpDepth}
+                                        draftAnswer={followUpAnswer}
+                                        onDraftChange={(answer) =>
+                                            dispatch({ type: "EDIT_FOLLOW_UP_ANSWER", answer })
+                                        }
+                                        onSubmitAnswer={submitFollowUpAnswer}
+                                        onRequestFollowUp={requestFollowUp}
+                                        questionStream={followUpStream}
+                                        feedbackStream={followUpFeedbackStream}
+                                    />
 
                                     <div className="flex flex-col sm:flex-row gap-4">
                                         <button
-                                            onClick={requestFollowUp}
-                                            disabled={isFetchingFollowUp}
-                                            className="btn-secondary w-full py-4"
+                                            onClick={() => moveTo("BACK")}
+                                            disabled={currentQuestionIndex === 0 || isBusy}
+                                            className="btn-secondary px-6 py-4"
                                         >
-                                            {isFetchingFollowUp
-                                                ? "Getting Follow-up..."
-                                                : "Request Follow-up"}
+                                            ← Back
                                         </button>
                                         <button
-                                            onClick={nextQuestion}
-                                            className="btn-primary w-full py-4"
+                                            onClick={reviseAnswer}
+                                            disabled={isBusy}
+                                            className="btn-secondary px-6 py-4"
+                                        >
+                                            Revise Answer
+                                        </button>
+                                        <button
+                                            onClick={() => moveTo("NEXT")}
+                                            disabled={isBusy}
+                                            className="btn-primary flex-1 py-4"
                                         >
                                             {currentQuestionIndex < questions.length - 1
                                                 ? `Next Question →`
                                                 : "Complete Interview ✓"}
                                         </button>
                                     </div>
-
-                                    {followUpQuestion && (
-                                        <div
-                                            className="card animate-fadeIn"
-                                            style={{ backgroundColor: "var(--muted)" }}
-                                        >
-                                            <h4
-                                                className="font-medium mb-4 text-sm uppercase tracking-wide"
-                                                style={{ color: "var(--text-secondary)" }}
-                                            >
-                                                Follow-up Question:
-                                            </h4>
-                                            <p
-                                                className="leading-relaxed text-base"
-                                                style={{ color: "var(--foreground)" }}
-                                            >
-                                                {followUpQuestion}
-                                            </p>
-                                        </div>
-                                    )}
                                 </div>
                             )}
 
@@ -743,55 +1434,14 @@ export default function Home() {
 
                     {/* Interview Complete Screen */}
                     {currentStep === "complete" && (
-                        <div className="text-center space-y-12 animate-fadeIn max-w-2xl mx-auto">
-                            <div className="space-y-6">
-                                <div
-                                    className="w-20 h-20 rounded-full flex items-center justify-center mx-auto"
-                                    style={{ backgroundColor: "var(--accent)" }}
-                                >
-                                    <svg
-                                        className="w-10 h-10 text-white"
-                                        fill="none"
-                                        stroke="currentColor"
-                                        viewBox="0 0 24 24"
-                                    >
-                                        <path
-                                            strokeLinecap="round"
-                                            strokeLinejoin="round"
-                                            strokeWidth={2}
-                                            d="M5 13l4 4L19 7"
-                                        />
-                                    </svg>
-                                </div>
-                                <h2
-                                    className="text-3xl font-light"
-                                    style={{ color: "var(--foreground)" }}
-                                >
-                                    Mock Interview Complete! 🎉
-                                </h2>
-                                <p
-                                    className="text-lg leading-relaxed"
-                                    style={{ color: "var(--text-secondary)" }}
-                                >
-                                    Great job! You&apos;ve successfully completed {questions.length}{" "}
-                                    interview questions. Keep practicing to improve your interview
-                                    skills.
-                                </p>
-                            </div>
-
-                            <div className="space-y-6">
-                                <button
-                                    onClick={resetToHome}
-                                    className="btn-primary px-12 py-4 text-lg"
-                                >
-                                    Start New Interview
-                                </button>
-
-                                <p className="text-sm" style={{ color: "var(--text-secondary)" }}>
-                                    Ready for another round of practice?
-                                </p>
-                            </div>
-                        </div>
+                        <InterviewSummary
+                            jobRole={jobRole}
+                            company={company}
+                            questions={questions}
+                            responses={responses}
+                            onRetry={startMockInterview}
+                            onStartNew={resetToHome}
+                        />
                     )}
                 </div>
             </div>
@@ -0,0 +1,10 @@
+import AccountSettings from "@/components/AccountSettings";
+
+export default function SettingsPage() {
+    return <AccountSettings />;
+}
+
+export const metadata = {
+    title: "Settings - PrepForge",
+    description: "Download your data or delete your PrepForge account",
+};
@@ -0,0 +1,201 @@
+"use client";
+
+import { FormEvent, useEffect, useState } from "react";
+import { useSession } from "next-auth/react";
+import toast from "react-hot-toast";
+import { Download, Trash2 } from "lucide-react";
+import ResumeSettings from "@/components/ResumeSettings";
+import { AccountDeletionResponse, AccountExport } from "@/lib/apiTypes";
+import { DELETION_CONFIRMATION, DELETION_GRACE_DAYS } from "@/lib/accountDeletion";
+import { listRecordings } from "@/lib/recordingStore";
+
+interface ExportedRecording {
+    id: string;
+    duration: number;
+    createdAt: string;
+    dataUrl: string;
+}
+
+function toDataUrl(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+}
+
+// Voice answers only exist in this browser's IndexedDB, so they're added to the archive here
+async function exportRecordings(): Promise<ExportedRecording[]> {
+    const recordings = await listRecordings();
+    return Promise.all(
+        recordings.map(async ({ id, duration, createdAt, blob }) => ({
+            id,
+            duration,
+            createdAt,
+            dataUrl: await toDataUrl(blob),
+        }))
+    );
+}
+
+function downloadJson(data: unknown, filename: string) {
+    const url = URL.createObjectURL(
+        new Blob([JSON.stringify(data, null, 2)], { type: "application/json" })
+    );
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = filename;
+    link.click();
+    // Revoking straight away can cancel the download in some browsers, e.g. Firefox
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export default function AccountSettings() {
+    const { data: session } = useSession({ required: true });
+    const [isExporting, setIsExporting] = useState(false);
+    const [scheduledFor, setScheduledFor] = useState<string | null>(null);
+    const [confirmation, setConfirmation] = useState("");
+    const [isUpdatingDeletion, setIsUpdatingDeletion] = useState(false);
+
+    useEffect(() => {
+        const fetchDeletion = async () => {
+            try {
+                const response = await fetch("/api/account/deletion");
+                if (!response.ok) throw new Error("Failed to load account status");
+
+                const data: AccountDeletionResponse = await response.json();
+                setScheduledFor(data.scheduledFor);
+            } catch (error) {
+                console.error("Error fetching account deletion:", error);
+            }
+        };
+        fetchDeletion();
+    }, []);
+
+    const handleExport = async () => {
+        setIsExporting(true);
+        try {
+            const response = await fetch("/api/account/export");
+            if (!response.ok) throw new Error("Failed to export data");
+
+            const data: AccountExport = await response.json();
+            const recordings = await exportRecordings().catch((error) => {
+                // A blocked IndexedDB shouldn't stop the rest of the export
+                console.error("Error reading recordings:", error);
+                return [];
+            });
+
+            downloadJson(
+                { ...data, recordings },
+                `prepforge-export-${data.exportedAt.slice(0, 10)}.json`
+            );
+            toast.success("Your data export has downloaded");
+        } catch (error) {
+            console.error("Error exporting data:", error);
+            toast.error("Failed to export your data");
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const updateDeletion = async (method: "POST" | "DELETE") => {
+        setIsUpdatingDeletion(true);
+        try {
+            const response = await fetch("/api/account/deletion", {
+                method,
+                headers: { "Content-Type": "application/json" },
+                body: method === "POST" ? JSON.stringify({ confirmation }) : undefined,
+            });
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error || "Failed to update account");
+
+            setScheduledFor((data as AccountDeletionResponse).scheduledFor);
+            setConfirmation("");
+            toast.success(method === "POST" ? "Account deletion scheduled" : "Deletion cancelled");
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to update account");
+        } finally {
+            setIsUpdatingDeletion(false);
+        }
+    };
+
+    const handleScheduleDeletion = (e: FormEvent) => {
+        e.preventDefault();
+        updateDeletion("POST");
+    };
+
+    return (
+        <div className="p-4 sm:p-8 bg-gray-50 min-h-screen font-sans">
+            <div className="max-w-2xl mx-auto space-y-6">
+                <header>
+                    <h1 className="text-3xl sm:text-4xl font-bold text-gray-800">Settings</h1>
+                    <p className="text-md text-gray-600 mt-1">{session?.user?.email}</p>
+                </header>
+
+                <section className="bg-white p-6 rounded-xl shadow-sm space-y-4">
+                    <h2 className="text-xl font-bold text-gray-800">Download your data</h2>
+                    <p className="text-sm text-gray-600">
+                        A single JSON file with your profile, resume, interviews, answers, feedback,
+                        saved question sets and the voice recordings stored in this browser.
+                    </p>
+                    <button
+                        onClick={handleExport}
+                        disabled={isExporting}
+                        className="btn-primary px-4 py-2 flex items-center gap-2"
+                    >
+                        <Download size={18} />
+                        {isExporting ? "Preparing export..." : "Download my data"}
+                    </button>
+                </section>
+
+                <ResumeSettings />
+
+                <section className="bg-white p-6 rounded-xl shadow-sm space-y-4 border border-red-100">
+                    <h2 className="text-xl font-bold text-red-700">Delete account</h2>
+                    {scheduledFor ? (
+                        <>
+                            <p className="text-sm text-gray-600">
+                                Your account and all of its data will be deleted on{" "}
+                                <strong>{new Date(scheduledFor).toLocaleDateString()}</strong>. You
+                                can keep using PrepForge and cancel until then.
+                            </p>
+                            <button
+                                onClick={() => updateDeletion("DELETE")}
+                                disabled={isUpdatingDeletion}
+                                className="btn-secondary px-4 py-2"
+                            >
+                                Cancel deletion
+                            </button>
+                        </>
+                    ) : (
+                        <form onSubmit={handleScheduleDeletion} className="space-y-4">
+                            <p className="text-sm text-gray-600">
+                                Your account, interviews, feedback and saved question sets are
+                                deleted {DELETION_GRACE_DAYS} days after you confirm. Download your
+                                data first if you want to keep it.
+                            </p>
+                            <label className="block text-sm text-gray-700">
+                                Type <strong>{DELETION_CONFIRMATION}</strong> to confirm
+                                <input
+                                    value={confirmation}
+                                    onChange={(e) => setConfirmation(e.target.value)}
+                                    className="mt-2 w-full border border-gray-300 rounded-lg px-3 py-2"
+                                />
+                            </label>
+                            <button
+                                type="submit"
+                                disabled={
+                                    isUpdatingDeletion || confirmation !== DELETION_CONFIRMATION
+                                }
+                                className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50 flex items-center gap-2"
+                            >
+                                <Trash2 size={18} />
+                                Delete my account
+                            </button>
+                        </form>
+                    )}
+                </section>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,342 @@
+"use client";
+
+import { FormEvent, useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import toast from "react-hot-toast";
+import {
+    BarChart,
+    Bar,
+    XAxis,
+    YAxis,
+    CartesianGrid,
+    Tooltip,
+    Legend,
+    ResponsiveContainer,
+} from "recharts";
+import {
+    AdminActivityResponse,
+    AdminInterview,
+    AdminUser,
+    AdminUserResponse,
+    AdminUsersResponse,
+    GenerationVolumeDay,
+} from "@/lib/apiTypes";
+import { Role, ROLES } from "@/lib/roles";
+
+const ACTIVITY_DAYS = 14;
+
+const headerCell = "px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider";
+
+const StatCard = ({ title, value }: { title: string; value: number }) => (
+    <div className="bg-white p-6 rounded-xl shadow-sm">
+        <h3 className="text-md font-semibold text-gray-500">{title}</h3>
+        <p className="text-3xl font-bold text-gray-800 mt-2">{value}</p>
+    </div>
+);
+
+export default function AdminConsole({ currentUserId }: { currentUserId: number }) {
+    const [users, setUsers] = useState<AdminUser[]>([]);
+    const [search, setSearch] = useState("");
+    const [interviews, setInterviews] = useState<AdminInterview[]>([]);
+    const [volume, setVolume] = useState<GenerationVolumeDay[]>([]);
+    const [activityError, setActivityError] = useState<string | null>(null);
+    const [updatingUserId, setUpdatingUserId] = useState<number | null>(null);
+
+    const fetchUsers = useCallback(async (query: string) => {
+        try {
+            const params = query ? `?q=${encodeURIComponent(query)}` : "";
+            const response = await fetch(`/api/admin/users${params}`);
+            if (!response.ok) throw new Error("Failed to load users");
+
+            const data: AdminUsersResponse = await response.json();
+            setUsers(data.users);
+        } catch (err) {
+            console.error("Error fetching users:", err);
+            toast.error("Failed to load users");
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchUsers("");
+
+        const fetchActivity = async () => {
+            try {
+                const response = await fetch(`/api/admin/activity?days=${ACTIVITY_DAYS}`);
+                if (!response.ok) throw new Error("Failed to load activity");
+
+                const data: AdminActivityResponse = await response.json();
+                setInterviews(data.recentInterviews);
+                setVolume(data.generationVolume);
+            } catch (err) {
+                setActivityError(err instanceof Error ? err.message : "Failed to load activity");
+            }
+        };
+        fetchActivity();
+    }, [fetchUsers]);
+
+    const updateUser = async (user: AdminUser, changes: { role?: Role; suspended?: boolean }) => {
+        setUpdatingUserId(user.id);
+        try {
+            const response = await fetch(`/api/admin/users/${user.id}`, {
+                method: "PATCH",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(changes),
+            });
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error || "Failed to update user");
+
+            const { user: updated } = data as AdminUserResponse;
+            setUsers((current) => current.map((u) => (u.id === updated.id ? updated : u)));
+            toast.success(`Updated ${updated.email ?? "user"}`);
+        } catch (err) {
+            toast.error(err instanceof Error ? err.message : "Failed to update user");
+        } finally {
+            setUpdatingUserId(null);
+        }
+    };
+
+    const handleSearch = (e: FormEvent) => {
+        e.preventDefault();
+        fetchUsers(search.trim());
+    };
+
+    const totals = volume.reduce(
+        (sum, day) => ({
+            questionSets: sum.questionSets + day.questionSets,
+            questions: sum.questions + day.questions,
+            feedback: sum.feedback + day.feedback,
+        }),
+        { questionSets: 0, questions: 0, feedback: 0 }
+    );
+
+    return (
+        <div className="p-4 sm:p-8 bg-gray-50 min-h-screen font-sans space-y-8">
+            <header>
+                <h1 className="text-3xl sm:text-4xl font-bold text-gray-800">Admin Console</h1>
+                <p className="text-md text-gray-600 mt-1">
+                    Users, recent interviews and generation volume
+                </p>
+            </header>
+
+            {/* Generation Volume */}
+            <section className="space-y-4">
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 sm:gap-6">
+                    <StatCard
+                        title={`Question Sets (${ACTIVITY_DAYS}d)`}
+                        value={totals.questionSets}
+                    />
+                    <StatCard title={`Questions (${ACTIVITY_DAYS}d)`} value={totals.questions} />
+                    <StatCard title={`Feedback (${ACTIVITY_DAYS}d)`} value={totals.feedback} />
+                </div>
+                <div className="bg-white p-6 rounded-xl shadow-sm">
+                    <h2 className="text-xl font-bold text-gray-800 mb-4">Generation Volume</h2>
+                    {activityError ? (
+                        <p className="text-sm text-gray-500">{activityError}</p>
+                    ) : (
+                        <ResponsiveContainer width="100%" height={300}>
+                            <BarChart data={volume}>
+                                <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                                <XAxis dataKey="date" />
+                                <YAxis allowDecimals={false} />
+                                <Tooltip />
+                                <Legend />
+                                <Bar dataKey="questionSets" name="Question sets" fill="#3b82f6" />
+                                <Bar dataKey="feedback" name="Feedback" fill="#10b981" />
+                            </BarChart>
+                        </ResponsiveContainer>
+                    )}
+                </div>
+            </section>
+
+            {/* Users */}
+            <section className="bg-white p-6 rounded-xl shadow-sm">
+                <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-4 mb-4">
+                    <h2 className="text-xl font-bold text-gray-800">Users</h2>
+                    <form onSubmit={handleSearch} className="flex gap-2">
+                        <input
+                            type="search"
+                            value={search}
+                            onChange={(e) => setSearch(e.target.value)}
+                            placeholder="Search by name or email"
+                            className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+                        />
+                        <button type="submit" className="btn-secondary px-4 py-2 text-sm">
+                            Search
+                        </button>
+                    </form>
+                </div>
+                <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                            <tr>
+                                <th scope="col" className={headerCell}>
+                                    User
+                                </th>
+                                <th scope="col" className={headerCell}>
+                                    Joined
+                                </th>
+                                <th scope="col" className={headerCell}>
+                                    Role
+                                </th>
+                                <th scope="col" className={headerCell}>
+                                    Status
+                                </th>
+                                <th scope="col" className="relative px-4 py-3">
+                                    <span className="sr-only">Actions</span>
+                                </th>
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                            {users.map((user) => {
+                                const isSelf = user.id === currentUserId;
+                                const isUpdating = updatingUserId === user.id;
+
+                                return (
+                                    <tr key={user.id} className="hover:bg-gray-50">
+                                        <td className="px-4 py-4 text-sm">
+                                            <p className="font-medium text-gray-900">
+                                                {user.name || "—"}
+                                            </p>
+                                            <p className="text-gray-500">{user.email}</p>
+                                        </td>
+                                        <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-500">
+                                            {new Date(user.createdAt).toLocaleDateString()}
+                                        </td>
+                                        <td className="px-4 py-4 whitespace-nowrap text-sm">
+                                            <select
+                                                value={user.role}
+                                                disabled={isSelf || isUpdating}
+                                                onChange={(e) =>
+                                                    updateUser(user, {
+                                                        role: e.target.value as Role,
+                                                    })
+                                                }
+                                                className="border border-gray-300 rounded-lg px-2 py-1"
+                                            >
+                                                {ROLES.map((role) => (
+                                                    <option key={role} value={role}>
+                                                        {role}
+                                                    </option>
+                                                ))}
+                                            </select>
+                                        </td>
+                                        <td className="px-4 py-4 whitespace-nowrap">
+                                            <span
+                                                className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                                                    user.suspendedAt
+                                                        ? "bg-red-100 text-red-800"
+                                                        : "bg-green-100 text-green-800"
+                                                }`}
+                                            >
+                                                {user.suspendedAt ? "suspended" : "active"}
+                                            </span>
+                                        </td>
+                                        <td className="px-4 py-4 whitespace-nowrap text-right text-sm font-medium">
+                                            {!isSelf && (
+                                                <button
+                                                    disabled={isUpdating}
+                                                    onClick={() =>
+                                                        updateUser(user, {
+                                                            suspended: !user.suspendedAt,
+                                                        })
+                                                    }
+                                                    className={
+                                                        user.suspendedAt
+                                                            ? "text-blue-600 hover:text-blue-800"
+                                                            : "text-red-600 hover:text-red-800"
+                                                    }
+                                                >
+                                                    {user.suspendedAt ? "Reinstate" : "Suspend"}
+                                                </button>
+                                            )}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                            {users.length === 0 && (
+                                <tr>
+                                    <td
+                                        colSpan={5}
+                                        className="px-4 py-10 text-center text-sm text-gray-500"
+                                    >
+                                        No users found.
+                                    </td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </section>
+
+            {/* Recent Interviews */}
+            <section className="bg-white p-6 rounded-xl shadow-sm">
+                <h2 className="text-xl font-bold text-gray-800 mb-4">Recent Interviews</h2>
+                <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                            <tr>
+                                <th scope="col" className={headerCell}>
+                                    User
+                                </th>
+                                <th scope="col" className={headerCell}>
+                                    Job Role
+                                </th>
+                                <th scope="col" className={headerCell}>
+                                    Company
+                                </th>
+                                <th scope="col" className={headerCell}>
+                                    Date
+                                </th>
+                                <th scope="col" className={headerCell}>
+                                    Score
+                                </th>
+                                <th scope="col" className="relative px-4 py-3">
+                                    <span className="sr-only">View</span>
+                                </th>
+                            </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                            {interviews.map((interview) => (
+                                <tr key={interview.id} className="hover:bg-gray-50">
+                                    <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-500">
+                                        {interview.userEmail ?? `#${interview.userId}`}
+                                    </td>
+                                    <td className="px-4 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                                        {interview.jobRole}
+                                    </td>
+                                    <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-500">
+                                        {interview.company}
+                                    </td>
+                                    <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-500">
+                                        {new Date(interview.createdAt).toLocaleDateString()}
+                                    </td>
+                                    <td className="px-4 py-4 whitespace-nowrap text-sm font-semibold text-gray-800">
+                                        {interview.overallScore?.toFixed(1) ?? "N/A"}
+                                    </td>
+                                    <td className="px-4 py-4 whitespace-nowrap text-right text-sm font-medium">
+                                        <Link
+                                            href={`/interview/${interview.id}`}
+                                            className="text-blue-600 hover:text-blue-800"
+                                        >
+                                            View Details
+                                        </Link>
+                                    </td>
+                                </tr>
+                            ))}
+                            {interviews.length === 0 && (
+                                <tr>
+                                    <td
+                                        colSpan={6}
+                                        className="px-4 py-10 text-center text-sm text-gray-500"
+                                    >
+                                        {activityError ?? "No interviews yet."}
+                                    </td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </section>
+        </div>
+    );
+}
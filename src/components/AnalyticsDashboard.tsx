@@ -4,78 +4,24 @@ import { useEffect, useState } from "react";
 import { useSession } from "next-auth/react";
 import { DashboardSkeleton } from "./LoadingSkeleton";
 import toast from "react-hot-toast";
-
-interface AnalyticsData {
-    period: {
-        days: number;
-        startDate: string;
-        endDate: string;
-    };
-    overview: {
-        totalInterviews: number;
-        completedInterviews: number;
-        totalQuestionsAnswered: number;
-        averageScore: string;
-    };
-    scores: {
-        overall: string;
-        relevance: string;
-        clarity: string;
-        depth: string;
-        communication: string;
-    };
-    skills: {
-        behavioral: number;
-        technical: number;
-        situational: number;
-        communication: number;
-    };
-    streaks: {
-        current: number;
-        longest: number;
-        lastPractice: string;
-    };
-    trend: {
-        trend: string;
-        change: number;
-        data: Array<{
-            week: string;
-            avgScore: number;
-            count: number;
-        }>;
-    };
-    recentActivity: Array<{
-        id: number;
-        role: string;
-        company: string;
-        date: string;
-        status: string;
-    }>;
-}
+import { HistoryAnalytics, HistoryAnalyticsResponse } from "@/lib/apiTypes";
 
 export default function AnalyticsPage() {
     const { data: session } = useSession();
-    const [analytics, setAnalytics] = useState<AnalyticsData | null>(null);
+    const [analytics, setAnalytics] = useState<HistoryAnalytics | null>(null);
     const [loading, setLoading] = useState(true);
     const [days, setDays] = useState(30);
 
     const fetchAnalytics = async () => {
         try {
             setLoading(true);
-            const response = await fetch(
-                `${process.env.NEXT_PUBLIC_API_URL}/api/history/analytics?days=${days}`,
-                {
-                    headers: {
-                        "x-user-id": session?.user?.email || "anonymous",
-                    },
-                }
-            );
+            const response = await fetch(`/api/history/analytics?days=${days}`);
 
             if (!response.ok) {
                 throw new Error("Failed to fetch analytics");
             }
 
-            const result = await response.json();
+            const result: HistoryAnalyticsResponse = await response.json();
             setAnalytics(result.data);
         } catch (error) {
             console.error("Error fetching analytics:", error);
@@ -2,35 +2,19 @@
 
 import { useState, useEffect } from "react";
 import toast from "react-hot-toast";
-
-interface Question {
-    id: string;
-    question: string;
-    type: string;
-    difficulty: string;
-    category: string;
-}
-
-interface SavedQuestionSet {
-    id: number;
-    title: string;
-    description: string | null;
-    questions: Question[];
-    tags: string[];
-    isFavorite: boolean;
-    practiceCount: number;
-    createdAt: string;
-}
+import {
+    BookmarkTagsResponse,
+    BookmarksResponse,
+    DeleteBookmarkResponse,
+    FavoriteResponse,
+    SavedQuestionSet,
+} from "@/lib/apiTypes";
 
 interface BookmarkManagerProps {
     userId: number;
-    apiUrl?: string;
 }
 
-export function BookmarkManager({
-    userId,
-    apiUrl = "http://localhost:5000",
-}: BookmarkManagerProps) {
+export function BookmarkManager({ userId }: BookmarkManagerProps) {
     const [bookmarks, setBookmarks] = useState<SavedQuestionSet[]>([]);
     const [loading, setLoading] = useState(true);
     const [selectedTag, setSelectedTag] = useState<string | null>(null);
@@ -39,11 +23,11 @@ export function BookmarkManager({
     const fetchBookmarks = async () => {
         try {
             const url = selectedTag
-                ? `${apiUrl}/api/bookmarks/user/${userId}?tag=${selectedTag}`
-                : `${apiUrl}/api/bookmarks/user/${userId}`;
+                ? `/api/bookmarks/user/${userId}?tag=${selectedTag}`
+                : `/api/bookmarks/user/${userId}`;
 
             const response = await fetch(url);
-            const data = await response.json();
+            const data: BookmarksResponse = await response.json();
 
             if (data.success) {
                 setBookmarks(data.data);
@@ -58,8 +42,8 @@ export function BookmarkManager({
 
     const fetchTags = async () => {
         try {
-            const response = await fetch(`${apiUrl}/api/bookmarks/user/${userId}/tags`);
-            const data = await response.json();
+            const response = await fetch(`/api/bookmarks/user/${userId}/tags`);
+            const data: BookmarkTagsResponse = await response.json();
 
             if (data.success) {
                 setTags(data.data);
@@ -77,13 +61,11 @@ export function BookmarkManager({
 
     const toggleFavorite = async (setId: number) => {
         try {
-            const response = await fetch(`${apiUrl}/api/bookmarks/${setId}/favorite`, {
+            const response = await fetch(`/api/bookmarks/${setId}/favorite`, {
                 method: "PATCH",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ userId }),
             });
 
-            const data = await response.json();
+            const data: FavoriteResponse = await response.json();
 
             if (data.success) {
                 setBookmarks((prev) =>
@@ -104,13 +86,11 @@ export function BookmarkManager({
         if (!confirm("Are you sure you want to delete this question set?")) return;
 
         try {
-            const response = await fetch(`${apiUrl}/api/bookmarks/${setId}`, {
+            const response = await fetch(`/api/bookmarks/${setId}`, {
                 method: "DELETE",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ userId }),
             });
 
-            const data = await response.json();
+            const data: DeleteBookmarkResponse = await response.json();
 
             if (data.success) {
                 setBookmarks((prev) => prev.filter((b) => b.id !== setId));
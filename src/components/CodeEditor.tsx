@@ -0,0 +1,80 @@
+"use client";
+
+import { KeyboardEvent, useRef } from "react";
+import { CodeLanguage } from "@/lib/codingChallenge";
+
+interface CodeEditorProps {
+    value: string;
+    language: CodeLanguage;
+    onChange: (value: string) => void;
+    readOnly?: boolean;
+}
+
+const INDENT = "    ";
+
+const LANGUAGE_LABELS: Record<CodeLanguage, string> = {
+    javascript: "JavaScript",
+    typescript: "TypeScript",
+};
+
+// Monospace editor pane for coding answers, with line numbers and Tab to indent
+export default function CodeEditor({ value, language, onChange, readOnly }: CodeEditorProps) {
+    const gutterRef = useRef<HTMLDivElement>(null);
+    const lineCount = value.split("\n").length;
+
+    const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+        if (e.key !== "Tab" || e.shiftKey || readOnly) return;
+
+        e.preventDefault();
+        const target = e.currentTarget;
+        const { selectionStart, selectionEnd } = target;
+        onChange(value.slice(0, selectionStart) + INDENT + value.slice(selectionEnd));
+        // Put the caret after the indent once React has written the new value
+        requestAnimationFrame(() => {
+            target.selectionStart = target.selectionEnd = selectionStart + INDENT.length;
+        });
+    };
+
+    return (
+        <div
+            className="border-2 rounded-lg overflow-hidden"
+            style={{ borderColor: "var(--border)" }}
+        >
+            <div
+                className="px-4 py-2 text-xs font-medium uppercase tracking-wide"
+                style={{ backgroundColor: "var(--muted)", color: "var(--text-secondary)" }}
+            >
+                {LANGUAGE_LABELS[language]}
+            </div>
+            <div className="flex font-mono text-sm leading-6 bg-gray-950 text-gray-100">
+                <div
+                    ref={gutterRef}
+                    aria-hidden
+                    className="py-3 px-3 text-right select-none text-gray-500 overflow-hidden"
+                >
+                    {Array.from({ length: lineCount }, (_, i) => (
+                        <div key={i}>{i + 1}</div>
+                    ))}
+                </div>
+                <textarea
+                    value={value}
+                    onChange={(e) => onChange(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    onScroll={(e) => {
+                        if (gutterRef.current) {
+                            gutterRef.current.scrollTop = e.currentTarget.scrollTop;
+                        }
+                    }}
+                    readOnly={readOnly}
+                    spellCheck={false}
+                    autoCapitalize="off"
+                    autoCorrect="off"
+                    aria-label={`${LANGUAGE_LABELS[language]} code`}
+                    rows={Math.min(Math.max(lineCount, 12), 30)}
+                    className="flex-1 py-3 pr-4 bg-transparent resize-y whitespace-pre overflow-auto"
+                    style={{ outline: "none", tabSize: 4 }}
+                />
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,79 @@
+"use client";
+
+import { CheckCircle2, XCircle } from "lucide-react";
+import { CodeRunResult } from "@/lib/codingChallenge";
+
+interface CodeRunResultsProps {
+    run: CodeRunResult;
+}
+
+// How an answer did against the hidden tests. Only pass/fail and errors show; the test
+// inputs and expected outputs stay hidden.
+export default function CodeRunResults({ run }: CodeRunResultsProps) {
+    const allPassed = run.status === "completed" && run.passed === run.total;
+    const errors = run.results
+        .map((result, index) => ({ index, error: result.error }))
+        .filter(
+            (item): item is { index: number; error: string } =>
+                item.error !== null && item.error !== run.error
+        );
+
+    return (
+        <div className="space-y-3 text-sm">
+            <p
+                className="flex items-center gap-2 font-medium"
+                style={{ color: "var(--foreground)" }}
+            >
+                {allPassed ? (
+                    <CheckCircle2 size={18} className="text-green-600" />
+                ) : (
+                    <XCircle size={18} className="text-red-600" />
+                )}
+                {run.passed} of {run.total} hidden tests passed
+                <span className="font-normal" style={{ color: "var(--text-secondary)" }}>
+                    · {run.runtimeMs} ms
+                </span>
+            </p>
+
+            {run.error && <p className="text-red-600 font-mono whitespace-pre-wrap">{run.error}</p>}
+
+            {run.total > 0 && (
+                <div className="flex flex-wrap gap-2">
+                    {run.results.map((result, index) => (
+                        <span
+                            key={index}
+                            className={`text-xs px-2 py-1 rounded-full ${
+                                result.passed
+                                    ? "bg-green-100 text-green-700"
+                                    : "bg-red-100 text-red-700"
+                            }`}
+                        >
+                            Test {index + 1} {result.passed ? "passed" : "failed"}
+                        </span>
+                    ))}
+                </div>
+            )}
+
+            {errors.length > 0 && (
+                <ul className="space-y-1 font-mono text-red-600">
+                    {errors.map(({ index, error }) => (
+                        <li key={index}>
+                            Test {index + 1}: {error}
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {run.logs.length > 0 && (
+                <div>
+                    <p className="font-medium mb-1" style={{ color: "var(--text-secondary)" }}>
+                        Console
+                    </p>
+                    <pre className="p-3 rounded-lg bg-gray-950 text-gray-100 text-xs overflow-auto max-h-48">
+                        {run.logs.join("\n")}
+                    </pre>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,92 @@
+"use client";
+
+import { Building2, Clock } from "lucide-react";
+import { CompanyProfile, stagesFor } from "@/lib/companyProfiles";
+
+interface CompanyProfileCardProps {
+    profile: CompanyProfile;
+    seniority: string;
+    jobRole: string;
+    onApplyFormat: () => void;
+}
+
+const formatMinutes = (seconds: number) => `${Math.round(seconds / 60)} min`;
+
+// The matched company's interview loop: stages in order, what it values and how it asks
+export default function CompanyProfileCard({
+    profile,
+    seniority,
+    jobRole,
+    onApplyFormat,
+}: CompanyProfileCardProps) {
+    const stages = stagesFor(profile, seniority, jobRole);
+
+    return (
+        <div className="border-2 rounded-lg p-4 space-y-4" style={{ borderColor: "var(--border)" }}>
+            <div className="flex items-center justify-between gap-4">
+                <p
+                    className="flex items-center gap-2 text-base font-medium"
+                    style={{ color: "var(--foreground)" }}
+                >
+                    <Building2 size={20} />
+                    How {profile.name} interviews
+                </p>
+                <button
+                    type="button"
+                    onClick={onApplyFormat}
+                    className="text-sm hover:underline"
+                    style={{ color: "var(--accent)" }}
+                >
+                    Use this format
+                </button>
+            </div>
+
+            <ol className="space-y-2 text-sm">
+                {stages.map((stage, index) => (
+                    <li key={stage.id} className="flex items-start gap-3">
+                        <span
+                            className="shrink-0 w-6 h-6 rounded-full flex items-center justify-center text-xs text-white"
+                            style={{ backgroundColor: "var(--accent)" }}
+                        >
+                            {index + 1}
+                        </span>
+                        <div className="flex-1">
+                            <p style={{ color: "var(--foreground)" }}>
+                                {stage.name}{" "}
+                                <span style={{ color: "var(--text-secondary)" }}>
+                                    · {stage.count} question{stage.count === 1 ? "" : "s"}
+                                </span>
+                            </p>
+                            <p style={{ color: "var(--text-secondary)" }}>{stage.focus}</p>
+                        </div>
+                        <span
+                            className="flex items-center gap-1 shrink-0"
+                            style={{ color: "var(--text-secondary)" }}
+                        >
+                            <Clock size={14} />
+                            {formatMinutes(stage.timeLimitSeconds)}
+                        </span>
+                    </li>
+                ))}
+            </ol>
+
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span style={{ color: "var(--text-secondary)" }}>Looks for:</span>
+                {profile.values.map((value) => (
+                    <span
+                        key={value}
+                        className="text-xs px-2 py-1 rounded-full bg-blue-100 text-blue-800"
+                    >
+                        {value}
+                    </span>
+                ))}
+            </div>
+
+            <ul className="list-disc ml-5 text-sm" style={{ color: "var(--text-secondary)" }}>
+                {profile.questionStyles.map((style) => (
+                    <li key={style}>{style}</li>
+                ))}
+            </ul>
+        </div>
+    );
+}
@@ -3,6 +3,12 @@
 import { useState, useEffect, useCallback } from "react";
 import { useSession } from "next-auth/react";
 import Link from "next/link";
+import {
+    InterviewHistoryItem,
+    InterviewHistoryResponse,
+    UserStats,
+    UserStatsResponse,
+} from "@/lib/apiTypes";
 import {
     BarChart,
     Bar,
@@ -14,29 +20,6 @@ import {
     ResponsiveContainer,
 } from "recharts";
 
-// Define interfaces for our data structures
-interface Interview {
-    id: number;
-    jobRole: string;
-    company: string;
-    createdAt: string;
-    status: string;
-    overallScore: number | null;
-}
-
-interface UserStats {
-    totalInterviews: number;
-    totalAnswers: number;
-    averageRelevance: string;
-    averageClarity: string;
-    averageDepth: string;
-    averageScore: number;
-    behavioralSkill: number;
-    technicalSkill: number;
-    communicationSkill: number;
-    currentStreak: number;
-}
-
 const StatCard = ({
     title,
     value,
@@ -56,28 +39,27 @@ const StatCard = ({
 );
 
 export default function Dashboard() {
-    const { data: session, status } = useSession();
+    // The middleware keeps signed-out visitors away; this catches sessions that expire here
+    const { data: session, status } = useSession({ required: true });
     const [stats, setStats] = useState<UserStats | null>(null);
-    const [interviews, setInterviews] = useState<Interview[]>([]);
+    const [interviews, setInterviews] = useState<InterviewHistoryItem[]>([]);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
 
     const fetchUserData = useCallback(async (userId: number) => {
         try {
             setLoading(true);
-            const backendUrl = process.env.NEXT_PUBLIC_API_URL || "http://localhost:5002";
-
             const [statsRes, interviewsRes] = await Promise.all([
-                fetch(`${backendUrl}/api/user-stats/${userId}`),
-                fetch(`${backendUrl}/api/interview-history/${userId}`),
+                fetch(`/api/user-stats/${userId}`),
+                fetch(`/api/interview-history/${userId}`),
             ]);
 
             if (!statsRes.ok || !interviewsRes.ok) {
                 throw new Error("Failed to fetch user data.");
             }
 
-            const statsData = await statsRes.json();
-            const interviewsData = await interviewsRes.json();
+            const statsData: UserStatsResponse = await statsRes.json();
+            const interviewsData: InterviewHistoryResponse = await interviewsRes.json();
 
             setStats(statsData.stats);
             setInterviews(interviewsData.interviews);
@@ -90,34 +72,13 @@ export default function Dashboard() {
         }
     }, []);
 
-    useEffect(() => {
-        const getUserIdAndFetchData = async () => {
-            if (status === "authenticated" && session?.user?.email) {
-                try {
-                    const backendUrl = process.env.NEXT_PUBLIC_API_URL || "http://localhost:5002";
-                    const userRes = await fetch(
-                        `${backendUrl}/api/db/users/by-email/${session.user.email}`
-                    );
-                    if (!userRes.ok) {
-                        throw new Error("Failed to fetch user profile.");
-                    }
-                    const userData = await userRes.json();
-                    if (userData.success && userData.user) {
-                        fetchUserData(userData.user.id);
-                    } else {
-                        throw new Error(userData.message || "Could not find user.");
-                    }
-                } catch (err) {
-                    const errorMessage =
-                        err instanceof Error ? err.message : "Failed to load user data";
-                    setError(errorMessage);
-                    setLoading(false);
-                }
-            }
-        };
+    const userId = session?.user?.id;
 
-        getUserIdAndFetchData();
-    }, [status, session, fetchUserData]);
+    useEffect(() => {
+        if (status === "authenticated" && userId) {
+            fetchUserData(userId);
+        }
+    }, [status, userId, fetchUserData]);
 
     if (status === "loading" || loading) {
         return (
@@ -164,21 +125,6 @@ export default function Dashboard() {
         );
     }
 
-    if (status === "unauthenticated") {
-        return (
-            <div className="flex flex-col justify-center items-center min-h-screen bg-gray-50">
-                <h1 className="text-2xl font-bold text-gray-800 mb-4">Access Denied</h1>
-                <p className="text-gray-600 mb-6">Please sign in to view your dashboard.</p>
-                <Link
-                    href="/api/auth/signin"
-                    className="px-6 py-2 bg-blue-600 text-white rounded-lg shadow hover:bg-blue-700 transition-colors"
-                >
-                    Sign In
-                </Link>
-            </div>
-        );
-    }
-
     const skillData = [
         { name: "Behavioral", level: stats?.behavioralSkill || 0 },
         { name: "Technical", level: stats?.technicalSkill || 0 },
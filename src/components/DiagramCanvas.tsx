@@ -0,0 +1,381 @@
+"use client";
+
+import { PointerEvent, useRef, useState } from "react";
+import { ArrowRight, Square, StickyNote, Trash2, Type } from "lucide-react";
+import {
+    DesignDiagram,
+    DIAGRAM_HEIGHT,
+    DIAGRAM_WIDTH,
+    DiagramNode,
+    DiagramNodeKind,
+    NODE_SIZE,
+    placeNode,
+    removeNode,
+} from "@/lib/designDiagram";
+
+interface DiagramCanvasProps {
+    diagram: DesignDiagram;
+    onChange?: (diagram: DesignDiagram) => void;
+    readOnly?: boolean;
+}
+
+type Selection = { kind: "node" | "edge"; id: string } | null;
+
+interface Drag {
+    id: string;
+    offsetX: number; // pointer position within the node
+    offsetY: number;
+    x: number;
+    y: number;
+}
+
+const NODE_STYLES: Record<DiagramNodeKind, { fill: string; stroke: string }> = {
+    box: { fill: "#eff6ff", stroke: "#2563eb" },
+    note: { fill: "#fef9c3", stroke: "#ca8a04" },
+    label: { fill: "transparent", stroke: "transparent" },
+};
+
+const ADD_BUTTONS: { kind: DiagramNodeKind; label: string; icon: typeof Square }[] = [
+    { kind: "box", label: "Component", icon: Square },
+    { kind: "note", label: "Note", icon: StickyNote },
+    { kind: "label", label: "Label", icon: Type },
+];
+
+const DEFAULT_TEXT: Record<DiagramNodeKind, string> = {
+    box: "Component",
+    note: "",
+    label: "Label",
+};
+
+function center(node: DiagramNode) {
+    const { width, height } = NODE_SIZE[node.kind];
+    return { x: node.x + width / 2, y: node.y + height / 2 };
+}
+
+// Where the line from the node's centre towards `target` leaves its outline
+function borderPoint(node: DiagramNode, target: { x: number; y: number }) {
+    const { width, height } = NODE_SIZE[node.kind];
+    const from = center(node);
+    const dx = target.x - from.x;
+    const dy = target.y - from.y;
+    if (dx === 0 && dy === 0) return from;
+
+    const scale = Math.min(
+        dx === 0 ? Infinity : width / 2 / Math.abs(dx),
+        dy === 0 ? Infinity : height / 2 / Math.abs(dy)
+    );
+    return { x: from.x + dx * scale, y: from.y + dy * scale };
+}
+
+/**
+ * Canvas for the diagram half of a system design answer. Add components, notes and labels,
+ * drag them around, and connect components with labelled arrows: pick Connect, then the
+ * source and the target. Read-only when showing a submitted answer.
+ */
+export default function DiagramCanvas({ diagram, onChange, readOnly }: DiagramCanvasProps) {
+    const svgRef = useRef<SVGSVGElement>(null);
+    const [selection, setSelection] = useState<Selection>(null);
+    const [connecting, setConnecting] = useState(false);
+    const [connectFrom, setConnectFrom] = useState<string | null>(null);
+    const [drag, setDrag] = useState<Drag | null>(null);
+    const editable = !readOnly && !!onChange;
+
+    // Positions follow the pointer locally and are only committed when the drag ends
+    const nodes = diagram.nodes.map((node) =>
+        drag?.id === node.id ? placeNode(node, drag.x, drag.y) : node
+    );
+    const nodeById = new Map(nodes.map((node) => [node.id, node]));
+    const selectedNode = selection?.kind === "node" ? nodeById.get(selection.id) : undefined;
+    const selectedEdge =
+        selection?.kind === "edge" ? diagram.edges.find((e) => e.id === selection.id) : undefined;
+
+    const change = (next: DesignDiagram) => onChange?.(next);
+
+    const toCanvas = (event: PointerEvent) => {
+        const matrix = svgRef.current?.getScreenCTM()?.inverse();
+        if (!matrix) return { x: 0, y: 0 };
+        const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix);
+        return { x: point.x, y: point.y };
+    };
+
+    const addNode = (kind: DiagramNodeKind) => {
+        const count = diagram.nodes.length;
+        const node = placeNode(
+            { id: crypto.randomUUID(), kind, text: DEFAULT_TEXT[kind], x: 0, y: 0 },
+            40 + (count % 5) * 180,
+            40 + (Math.floor(count / 5) % 6) * 90
+        );
+        change({ ...diagram, nodes: [...diagram.nodes, node] });
+        setSelection({ kind: "node", id: node.id });
+    };
+
+    const deleteSelection = () => {
+        if (selection?.kind === "node") change(removeNode(diagram, selection.id));
+        if (selection?.kind === "edge") {
+            change({ ...diagram, edges: diagram.edges.filter((e) => e.id !== selection.id) });
+        }
+        setSelection(null);
+    };
+
+    const setSelectedText = (text: string) => {
+        if (selectedNode) {
+            change({
+                ...diagram,
+                nodes: diagram.nodes.map((n) => (n.id === selectedNode.id ? { ...n, text } : n)),
+            });
+        } else if (selectedEdge) {
+            change({
+                ...diagram,
+                edges: diagram.edges.map((e) =>
+                    e.id === selectedEdge.id ? { ...e, label: text } : e
+                ),
+            });
+        }
+    };
+
+    const handleNodePointerDown = (event: PointerEvent, node: DiagramNode) => {
+        if (!editable) return;
+        event.stopPropagation();
+
+        if (connecting) {
+            if (!connectFrom) {
+                setConnectFrom(node.id);
+            } else if (connectFrom !== node.id) {
+                const edge = { id: crypto.randomUUID(), from: connectFrom, to: node.id, label: "" };
+                change({ ...diagram, edges: [...diagram.edges, edge] });
+                setSelection({ kind: "edge", id: edge.id });
+                setConnecting(false);
+                setConnectFrom(null);
+            }
+            return;
+        }
+
+        setSelection({ kind: "node", id: node.id });
+        const pointer = toCanvas(event);
+        svgRef.current?.setPointerCapture(event.pointerId);
+        setDrag({
+            id: node.id,
+            offsetX: pointer.x - node.x,
+            offsetY: pointer.y - node.y,
+            x: node.x,
+            y: node.y,
+        });
+    };
+
+    const handlePointerMove = (event: PointerEvent) => {
+        if (!drag) return;
+        const pointer = toCanvas(event);
+        setDrag({ ...drag, x: pointer.x - drag.offsetX, y: pointer.y - drag.offsetY });
+    };
+
+    const handlePointerUp = () => {
+        if (!drag) return;
+        const moved = nodeById.get(drag.id);
+        if (moved) {
+            change({
+                ...diagram,
+                nodes: diagram.nodes.map((n) => (n.id === moved.id ? moved : n)),
+            });
+        }
+        setDrag(null);
+    };
+
+    const toggleConnecting = () => {
+        setConnecting(!connecting);
+        setConnectFrom(null);
+    };
+
+    return (
+        <div className="space-y-3">
+            {editable && (
+                <div className="flex flex-wrap items-center gap-2">
+                    {ADD_BUTTONS.map(({ kind, label, icon: Icon }) => (
+                        <button
+                            key={kind}
+                            type="button"
+                            onClick={() => addNode(kind)}
+                            className="btn-secondary px-3 py-2 text-sm flex items-center gap-2"
+                        >
+                            <Icon size={16} />
+                            {label}
+                        </button>
+                    ))}
+                    <button
+                        type="button"
+                        onClick={toggleConnecting}
+                        disabled={diagram.nodes.length < 2}
+                        aria-pressed={connecting}
+                        className={`px-3 py-2 text-sm flex items-center gap-2 rounded-lg ${
+                            connecting ? "bg-blue-600 text-white" : "btn-secondary"
+                        }`}
+                    >
+                        <ArrowRight size={16} />
+                        {connecting
+                            ? connectFrom
+                                ? "Pick the target"
+                                : "Pick the source"
+                            : "Connect"}
+                    </button>
+                    {(selectedNode || selectedEdge) && (
+                        <>
+                            <input
+                                type="text"
+                                value={selectedNode?.text ?? selectedEdge?.label ?? ""}
+                                onChange={(e) => setSelectedText(e.target.value)}
+                                placeholder={selectedEdge ? "Arrow label" : "Text"}
+                                aria-label={selectedEdge ? "Arrow label" : "Text"}
+                                maxLength={200}
+                                className="flex-1 min-w-[10rem] border-2 rounded-lg px-3 py-2 text-sm"
+                                style={{
+                                    borderColor: "var(--border)",
+                                    color: "var(--foreground)",
+                                }}
+                            />
+                            <button
+                                type="button"
+                                onClick={deleteSelection}
+                                aria-label="Delete selected"
+                                className="p-2 rounded-lg bg-red-50 text-red-600 hover:bg-red-100"
+                            >
+                                <Trash2 size={16} />
+                            </button>
+                        </>
+                    )}
+                </div>
+            )}
+
+            <svg
+                ref={svgRef}
+                viewBox={`0 0 ${DIAGRAM_WIDTH} ${DIAGRAM_HEIGHT}`}
+                className="w-full rounded-lg border-2 bg-white touch-none select-none"
+                style={{ borderColor: "var(--border)" }}
+                onPointerDown={() => setSelection(null)}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                role="img"
+                aria-label="System design diagram"
+            >
+                <defs>
+                    <marker
+                        id="diagram-arrow"
+                        viewBox="0 0 10 10"
+                        refX="10"
+                        refY="5"
+                        markerWidth="8"
+                        markerHeight="8"
+                        orient="auto-start-reverse"
+                    >
+                        <path d="M 0 0 L 10 5 L 0 10 z" fill="#475569" />
+                    </marker>
+                </defs>
+
+                {diagram.edges.map((edge) => {
+                    const from = nodeById.get(edge.from);
+                    const to = nodeById.get(edge.to);
+                    if (!from || !to) return null;
+
+                    const start = borderPoint(from, center(to));
+                    const end = borderPoint(to, center(from));
+                    const selected = selection?.kind === "edge" && selection.id === edge.id;
+                    return (
+                        <g
+                            key={edge.id}
+                            onPointerDown={(event) => {
+                                if (!editable || connecting) return;
+                                event.stopPropagation();
+                                setSelection({ kind: "edge", id: edge.id });
+                            }}
+                            className={editable ? "cursor-pointer" : undefined}
+                        >
+                            {/* Wide invisible stroke so thin arrows are easy to pick */}
+                            <line
+                                x1={start.x}
+                                y1={start.y}
+                                x2={end.x}
+                                y2={end.y}
+                                stroke="transparent"
+                                strokeWidth={14}
+                            />
+                            <line
+                                x1={start.x}
+                                y1={start.y}
+                                x2={end.x}
+                                y2={end.y}
+                                stroke={selected ? "#2563eb" : "#475569"}
+                                strokeWidth={selected ? 3 : 2}
+                                markerEnd="url(#diagram-arrow)"
+                            />
+                            {edge.label && (
+                                <text
+                                    x={(start.x + end.x) / 2}
+                                    y={(start.y + end.y) / 2 - 6}
+                                    textAnchor="middle"
+                                    fontSize={13}
+                                    fill="#334155"
+                                    paintOrder="stroke"
+                                    stroke="white"
+                                    strokeWidth={4}
+                                >
+                                    {edge.label}
+                                </text>
+                            )}
+                        </g>
+                    );
+                })}
+
+                {nodes.map((node) => {
+                    const { width, height } = NODE_SIZE[node.kind];
+                    const style = NODE_STYLES[node.kind];
+                    const selected =
+                        (selection?.kind === "node" && selection.id === node.id) ||
+                        connectFrom === node.id;
+                    return (
+                        <g
+                            key={node.id}
+                            transform={`translate(${node.x} ${node.y})`}
+                            onPointerDown={(event) => handleNodePointerDown(event, node)}
+                            className={editable ? "cursor-move" : undefined}
+                        >
+                            <rect
+                                width={width}
+                                height={height}
+                                rx={node.kind === "box" ? 8 : 2}
+                                fill={style.fill}
+                                stroke={selected ? "#1d4ed8" : style.stroke}
+                                strokeWidth={selected ? 3 : 1.5}
+                                strokeDasharray={
+                                    node.kind === "label" && selected ? "4 3" : undefined
+                                }
+                            />
+                            <foreignObject width={width} height={height}>
+                                <div
+                                    className={`h-full w-full p-2 overflow-hidden text-sm leading-tight text-slate-800 ${
+                                        node.kind === "note"
+                                            ? "text-left"
+                                            : "flex items-center justify-center text-center font-medium"
+                                    }`}
+                                >
+                                    {node.text}
+                                </div>
+                            </foreignObject>
+                        </g>
+                    );
+                })}
+
+                {diagram.nodes.length === 0 && (
+                    <text
+                        x={DIAGRAM_WIDTH / 2}
+                        y={DIAGRAM_HEIGHT / 2}
+                        textAnchor="middle"
+                        fontSize={16}
+                        fill="#94a3b8"
+                    >
+                        {editable
+                            ? "Add components, then connect them to sketch your design"
+                            : "No diagram"}
+                    </text>
+                )}
+            </svg>
+        </div>
+    );
+}
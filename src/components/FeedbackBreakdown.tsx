@@ -0,0 +1,64 @@
+interface FeedbackBreakdownProps {
+    relevanceScore: number | null;
+    clarityScore: number | null;
+    depthScore: number | null;
+    strengths: string[] | null;
+    improvements: string[] | null;
+    resumeNotes?: string[] | null;
+}
+
+const ScoreCard = ({ title, score }: { title: string; score: number | null }) => (
+    <div className="bg-white p-4 rounded-lg shadow-sm">
+        <h3 className="text-sm font-medium text-gray-500">{title}</h3>
+        <p className="text-2xl font-bold text-gray-800 mt-1">{`${score || 0}/10`}</p>
+    </div>
+);
+
+export default function FeedbackBreakdown({
+    relevanceScore,
+    clarityScore,
+    depthScore,
+    strengths,
+    improvements,
+    resumeNotes,
+}: FeedbackBreakdownProps) {
+    return (
+        <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-center mb-4">
+                <ScoreCard title="Relevance" score={relevanceScore} />
+                <ScoreCard title="Clarity" score={clarityScore} />
+                <ScoreCard title="Depth" score={depthScore} />
+            </div>
+            {strengths && strengths.length > 0 && (
+                <div className="mb-2">
+                    <h4 className="font-semibold text-green-700">Strengths:</h4>
+                    <ul className="list-disc list-inside text-sm text-gray-600">
+                        {strengths.map((s, i) => (
+                            <li key={i}>{s}</li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+            {improvements && improvements.length > 0 && (
+                <div>
+                    <h4 className="font-semibold text-orange-700">Areas for Improvement:</h4>
+                    <ul className="list-disc list-inside text-sm text-gray-600">
+                        {improvements.map((imp, i) => (
+                            <li key={i}>{imp}</li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+            {resumeNotes && resumeNotes.length > 0 && (
+                <div className="mt-2">
+                    <h4 className="font-semibold text-blue-700">Resume Check:</h4>
+                    <ul className="list-disc list-inside text-sm text-gray-600">
+                        {resumeNotes.map((note, i) => (
+                            <li key={i}>{note}</li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </>
+    );
+}
@@ -0,0 +1,152 @@
+"use client";
+
+import FeedbackBreakdown from "@/components/FeedbackBreakdown";
+import { FollowUpTurn } from "@/lib/interviewSession";
+
+interface FollowUpThreadProps {
+    turns: FollowUpTurn[];
+    maxDepth: number;
+    draftAnswer: string;
+    onDraftChange: (answer: string) => void;
+    onSubmitAnswer: () => void;
+    onRequestFollowUp: () => void;
+    questionStream: { text: string; isStreaming: boolean; cancel: () => void };
+    feedbackStream: { text: string; isStreaming: boolean; cancel: () => void };
+}
+
+export default function FollowUpThread({
+    turns,
+    maxDepth,
+    draftAnswer,
+    onDraftChange,
+    onSubmitAnswer,
+    onRequestFollowUp,
+    questionStream,
+    feedbackStream,
+}: FollowUpThreadProps) {
+    const openTurn = turns.length > 0 && !turns[turns.length - 1].feedback;
+    const canGoDeeper = !openTurn && turns.length < maxDepth;
+    const busy = questionStream.isStreaming || feedbackStream.isStreaming;
+
+    return (
+        <div className="space-y-4">
+            {turns.map((turn, index) => {
+                const isOpen = openTurn && index === turns.length - 1;
+                return (
+                    <div
+                        key={index}
+                        className="card animate-fadeIn"
+                        style={{ backgroundColor: "var(--muted)" }}
+                    >
+                        <h4
+                            className="font-medium mb-4 text-sm uppercase tracking-wide"
+                            style={{ color: "var(--text-secondary)" }}
+                        >
+                            Follow-up {index + 1} of {maxDepth}:
+                        </h4>
+                        <p
+                            className="leading-relaxed text-base mb-4"
+                            style={{ color: "var(--foreground)" }}
+                        >
+                            {turn.question}
+                        </p>
+
+                        {isOpen ? (
+                            <div className="space-y-4">
+                                <textarea
+                                    value={draftAnswer}
+                                    onChange={(e) => onDraftChange(e.target.value)}
+                                    placeholder="Answer the follow-up..."
+                                    disabled={feedbackStream.isStreaming}
+                                    className="w-full min-h-[100px] p-0 border-0 border-b-2 text-base leading-relaxed resize-none"
+                                    style={{
+                                        backgroundColor: "transparent",
+                                        borderBottomColor: "var(--border)",
+                                        color: "var(--foreground)",
+                                        outline: "none",
+                                    }}
+                                />
+                                {feedbackStream.isStreaming ? (
+                                    <div className="space-y-3">
+                                        <p
+                                            className="text-sm leading-relaxed"
+                                            style={{ color: "var(--foreground)" }}
+                                        >
+                                            {feedbackStream.text || "Thinking..."}
+                                        </p>
+                                        <button
+                                            onClick={feedbackStream.cancel}
+                                            className="btn-secondary w-full py-3"
+                                        >
+                                            Cancel
+                                        </button>
+                                    </div>
+                                ) : (
+                                    <button
+                                        onClick={onSubmitAnswer}
+                                        disabled={!draftAnswer.trim()}
+                                        className="btn-primary w-full py-3"
+                                    >
+                                        Submit Follow-up Answer
+                                    </button>
+                                )}
+                            </div>
+                        ) : (
+                            <>
+                                <p className="text-gray-700 mb-4 italic">
+                                    Your answer: &quot;{turn.answer}&quot;
+                                </p>
+                                {turn.feedback && (
+                                    <>
+                                        <p className="text-sm text-gray-600 mb-4">
+                                            {turn.feedback.summary} ({turn.feedback.overallScore}
+                                            /10)
+                                        </p>
+                                        <FeedbackBreakdown
+                                            relevanceScore={turn.feedback.relevanceScore}
+                                            clarityScore={turn.feedback.clarityScore}
+                                            depthScore={turn.feedback.depthScore}
+                                            strengths={turn.feedback.strengths}
+                                            improvements={turn.feedback.improvements}
+                                            resumeNotes={turn.feedback.resumeNotes}
+                                        />
+                                    </>
+                                )}
+                            </>
+                        )}
+                    </div>
+                );
+            })}
+
+            {questionStream.isStreaming && (
+                <div className="card animate-fadeIn" style={{ backgroundColor: "var(--muted)" }}>
+                    <h4
+                        className="font-medium mb-4 text-sm uppercase tracking-wide"
+                        style={{ color: "var(--text-secondary)" }}
+                    >
+                        Follow-up {turns.length + 1} of {maxDepth}:
+                    </h4>
+                    <p className="leading-relaxed text-base" style={{ color: "var(--foreground)" }}>
+                        {questionStream.text || "Thinking..."}
+                    </p>
+                </div>
+            )}
+
+            {questionStream.isStreaming ? (
+                <button onClick={questionStream.cancel} className="btn-secondary w-full py-4">
+                    Cancel Follow-up
+                </button>
+            ) : (
+                canGoDeeper && (
+                    <button
+                        onClick={onRequestFollowUp}
+                        disabled={busy}
+                        className="btn-secondary w-full py-4"
+                    >
+                        {turns.length === 0 ? "Request Follow-up" : "Ask a Deeper Follow-up"}
+                    </button>
+                )
+            )}
+        </div>
+    );
+}
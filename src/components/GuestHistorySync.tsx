@@ -0,0 +1,49 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { useSession } from "next-auth/react";
+import toast from "react-hot-toast";
+import { loadGuestHistory, removeGuestInterviews } from "@/lib/guestHistory";
+import { GuestImportResponse } from "@/lib/apiTypes";
+
+// Imports interviews finished as a guest once the visitor signs in. Renders nothing.
+export default function GuestHistorySync() {
+    const { status } = useSession();
+    const hasSynced = useRef(false);
+
+    useEffect(() => {
+        if (status !== "authenticated" || hasSynced.current) return;
+        hasSynced.current = true;
+
+        const history = loadGuestHistory();
+        if (!history) return;
+
+        const importHistory = async () => {
+            try {
+                const response = await fetch("/api/guest-history/import", {
+                    method: "POST",
+                    headers: { "Content-Type": "application/json" },
+                    body: JSON.stringify(history),
+                });
+                if (!response.ok) throw new Error("Failed to import guest history");
+
+                const data: GuestImportResponse = await response.json();
+                removeGuestInterviews(history.interviews.map((i) => i.id));
+
+                if (data.imported > 0) {
+                    toast.success(
+                        `Added ${data.imported} practice interview${
+                            data.imported === 1 ? "" : "s"
+                        } from before you signed in`
+                    );
+                }
+            } catch (error) {
+                // Leave the history in place so the next sign-in can try again
+                console.error("Error importing guest history:", error);
+            }
+        };
+        importHistory();
+    }, [status]);
+
+    return null;
+}
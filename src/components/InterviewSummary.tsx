@@ -0,0 +1,231 @@
+"use client";
+
+import FeedbackBreakdown from "@/components/FeedbackBreakdown";
+import RecordingPlayer from "@/components/RecordingPlayer";
+import CodeRunResults from "@/components/CodeRunResults";
+import DiagramCanvas from "@/components/DiagramCanvas";
+import { Question, QuestionResponse, isWeakResponse } from "@/lib/interviewSession";
+import { getOvertime } from "@/lib/timeBudget";
+import { isDiagramEmpty } from "@/lib/designDiagram";
+
+interface InterviewSummaryProps {
+    jobRole: string;
+    company: string;
+    questions: Question[];
+    responses: QuestionResponse[];
+    onRetry: (questions: Question[]) => void;
+    onStartNew: () => void;
+}
+
+const formatDuration = (seconds: number) => `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+
+const StatCard = ({ title, value }: { title: string; value: string | number }) => (
+    <div className="bg-white p-4 rounded-lg shadow-sm">
+        <h3 className="text-sm font-medium text-gray-500">{title}</h3>
+        <p className="text-2xl font-bold text-gray-800 mt-1">{value}</p>
+    </div>
+);
+
+export default function InterviewSummary({
+    jobRole,
+    company,
+    questions,
+    responses,
+    onRetry,
+    onStartNew,
+}: InterviewSummaryProps) {
+    const totalTime = responses.reduce((acc, r) => acc + r.timeSpent, 0);
+    const averageTime = responses.length > 0 ? Math.round(totalTime / responses.length) : 0;
+    const weakResponses = responses.filter(isWeakResponse);
+    const skippedQuestions = questions.filter((q) => !responses.some((r) => r.questionId === q.id));
+    const averageScore =
+        responses.length > 0
+            ? responses.reduce((acc, r) => acc + r.feedback.overallScore, 0) / responses.length
+            : 0;
+
+    const questionFor = (response: QuestionResponse) =>
+        questions.find((q) => q.id === response.questionId);
+
+    const retryResponses = (selected: QuestionResponse[]) => {
+        const retryQuestions = selected
+            .map(questionFor)
+            .filter((q): q is Question => q !== undefined);
+        if (retryQuestions.length > 0) {
+            onRetry(retryQuestions);
+        }
+    };
+
+    return (
+        <div className="space-y-8 animate-fadeIn max-w-4xl mx-auto py-12">
+            <header className="text-center space-y-3">
+                <h2 className="text-3xl font-light" style={{ color: "var(--foreground)" }}>
+                    Mock Interview Complete! 🎉
+                </h2>
+                <p className="text-lg" style={{ color: "var(--text-secondary)" }}>
+                    {jobRole} at {company}
+                </p>
+            </header>
+
+            {/* Summary Section */}
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                <StatCard title="Overall Score" value={`${averageScore.toFixed(1)}/10`} />
+                <StatCard
+                    title="Questions Answered"
+                    value={`${responses.length}/${questions.length}`}
+                />
+                <StatCard title="Total Time" value={formatDuration(totalTime)} />
+                <StatCard title="Avg. Time" value={formatDuration(averageTime)} />
+                <StatCard title="To Revisit" value={weakResponses.length} />
+            </div>
+
+            {/* Answers Details */}
+            <div className="space-y-6">
+                {responses.map((response, index) => {
+                    const weak = isWeakResponse(response);
+                    const overtime = getOvertime(response.timeSpent, response.timeLimit);
+                    return (
+                        <div
+                            key={`${response.questionId}-${index}`}
+                            className="bg-white p-6 rounded-lg shadow-sm"
+                        >
+                            <div className="flex justify-between items-start gap-4">
+                                <h3 className="font-bold text-lg text-gray-900 mb-2">
+                                    Q{index + 1}: {response.question}
+                                </h3>
+                                <span className="text-sm font-medium text-gray-500 bg-gray-100 px-2 py-1 rounded-md whitespace-nowrap">
+                                    {formatDuration(response.timeSpent)}
+                                </span>
+                            </div>
+                            <div className="flex items-center gap-2 mb-3">
+                                <span className="text-xs px-2 py-1 rounded-full bg-blue-100 text-blue-800">
+                                    {response.type}
+                                </span>
+                                <span className="text-xs px-2 py-1 rounded-full bg-gray-100 text-gray-700">
+                                    {response.difficulty}
+                                </span>
+                                {overtime > 0 && (
+                                    <span className="text-xs px-2 py-1 rounded-full bg-red-100 text-red-700">
+                                        +{formatDuration(overtime)} over {response.timeLimit}s limit
+                                    </span>
+                                )}
+                                {response.autoSubmitted && (
+                                    <span className="text-xs px-2 py-1 rounded-full bg-yellow-100 text-yellow-800">
+                                        auto-submitted
+                                    </span>
+                                )}
+                                {weak && (
+                                    <span className="text-xs px-2 py-1 rounded-full bg-orange-100 text-orange-800">
+                                        needs work
+                                    </span>
+                                )}
+                            </div>
+                            {response.diagram && !isDiagramEmpty(response.diagram) && (
+                                <div className="mb-4">
+                                    <DiagramCanvas diagram={response.diagram} readOnly />
+                                </div>
+                            )}
+                            {response.type === "coding" ? (
+                                <div className="mb-4 space-y-3">
+                                    <pre className="p-3 rounded-lg bg-gray-950 text-gray-100 text-sm overflow-auto max-h-80">
+                                        {response.answer}
+                                    </pre>
+                                    {response.codeRun && <CodeRunResults run={response.codeRun} />}
+                                </div>
+                            ) : (
+                                <p className="text-gray-700 mb-4 italic">
+                                    Your answer: &quot;{response.answer}&quot;
+                                </p>
+                            )}
+                            {response.recordingId && (
+                                <div className="mb-4">
+                                    <RecordingPlayer recordingId={response.recordingId} />
+                                </div>
+                            )}
+                            <div className="mb-4">
+                                <h4 className="font-semibold text-gray-800">
+                                    Feedback ({response.feedback.overallScore}/10):
+                                </h4>
+                                <p className="text-sm text-gray-600">{response.feedback.summary}</p>
+                            </div>
+                            <FeedbackBreakdown
+                                relevanceScore={response.feedback.relevanceScore}
+                                clarityScore={response.feedback.clarityScore}
+                                depthScore={response.feedback.depthScore}
+                                strengths={response.feedback.strengths}
+                                improvements={response.feedback.improvements}
+                                resumeNotes={response.feedback.resumeNotes}
+                            />
+                            {response.followUps.length > 0 && (
+                                <div className="mt-4 space-y-3 border-l-2 border-gray-200 pl-4">
+                                    {response.followUps.map((turn, turnIndex) => (
+                                        <div key={turnIndex}>
+                                            <h4 className="font-semibold text-gray-800">
+                                                Follow-up {turnIndex + 1}: {turn.question}
+                                            </h4>
+                                            {turn.answer ? (
+                                                <p className="text-sm text-gray-700 italic">
+                                                    Your answer: &quot;{turn.answer}&quot;
+                                                </p>
+                                            ) : (
+                                                <p className="text-sm text-gray-400">
+                                                    Not answered
+                                                </p>
+                                            )}
+                                            {turn.feedback && (
+                                                <p className="text-sm text-gray-600">
+                                                    {turn.feedback.summary} (
+                                                    {turn.feedback.overallScore}/10)
+                                                </p>
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                            <button
+                                onClick={() => retryResponses([response])}
+                                className="text-blue-600 hover:underline text-sm mt-2"
+                            >
+                                Retry this question &rarr;
+                            </button>
+                        </div>
+                    );
+                })}
+            </div>
+
+            {skippedQuestions.length > 0 && (
+                <div className="bg-white p-6 rounded-lg shadow-sm">
+                    <h3 className="font-bold text-lg text-gray-900 mb-2">Skipped</h3>
+                    <ul className="list-disc list-inside space-y-1 text-gray-700">
+                        {skippedQuestions.map((question) => (
+                            <li key={question.id}>{question.question}</li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            <div className="flex flex-col sm:flex-row gap-4 justify-center">
+                {skippedQuestions.length > 0 && (
+                    <button
+                        onClick={() => onRetry(skippedQuestions)}
+                        className="btn-secondary px-8 py-3"
+                    >
+                        Answer {skippedQuestions.length} Skipped Question
+                        {skippedQuestions.length === 1 ? "" : "s"}
+                    </button>
+                )}
+                {weakResponses.length > 0 && (
+                    <button
+                        onClick={() => retryResponses(weakResponses)}
+                        className="btn-secondary px-8 py-3"
+                    >
+                        Retry {weakResponses.length} Weak Question
+                        {weakResponses.length === 1 ? "" : "s"}
+                    </button>
+                )}
+                <button onClick={onStartNew} className="btn-primary px-8 py-3">
+                    Start New Interview
+                </button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,136 @@
+"use client";
+
+import { ChangeEvent, useMemo, useRef, useState } from "react";
+import { FileText, Upload } from "lucide-react";
+import {
+    hasRequirements,
+    MAX_JOB_DESCRIPTION_LENGTH,
+    parseJobDescription,
+} from "@/lib/jobDescription";
+import {
+    JOB_DESCRIPTION_ACCEPT,
+    JobDescriptionFileError,
+    readJobDescriptionFile,
+} from "@/lib/jobDescriptionFile";
+
+interface JobDescriptionInputProps {
+    value: string;
+    onChange: (value: string) => void;
+}
+
+const Chip = ({ children, className }: { children: string; className: string }) => (
+    <span className={`text-xs px-2 py-1 rounded-full ${className}`}>{children}</span>
+);
+
+export default function JobDescriptionInput({ value, onChange }: JobDescriptionInputProps) {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [isReading, setIsReading] = useState(false);
+    const [fileError, setFileError] = useState<string | null>(null);
+
+    const context = useMemo(() => parseJobDescription(value), [value]);
+
+    const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = "";
+        if (!file) return;
+
+        setIsReading(true);
+        setFileError(null);
+        try {
+            const text = await readJobDescriptionFile(file);
+            onChange(text.slice(0, MAX_JOB_DESCRIPTION_LENGTH));
+        } catch (error) {
+            setFileError(
+                error instanceof JobDescriptionFileError
+                    ? error.message
+                    : "We couldn't read that file"
+            );
+        } finally {
+            setIsReading(false);
+        }
+    };
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-between">
+                <label
+                    className="flex items-center gap-2 text-base font-medium"
+                    style={{ color: "var(--text-secondary)" }}
+                >
+                    <FileText size={20} />
+                    Job Description <span className="text-sm opacity-60">(Optional)</span>
+                </label>
+                <button
+                    type="button"
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isReading}
+                    className="flex items-center gap-1 text-sm hover:underline"
+                    style={{ color: "var(--accent)" }}
+                >
+                    <Upload size={16} />
+                    {isReading ? "Reading..." : "Upload .txt, .md or .pdf"}
+                </button>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept={JOB_DESCRIPTION_ACCEPT}
+                    onChange={handleFile}
+                    className="hidden"
+                />
+            </div>
+
+            <textarea
+                value={value}
+                onChange={(e) => onChange(e.target.value)}
+                maxLength={MAX_JOB_DESCRIPTION_LENGTH}
+                rows={6}
+                placeholder="Paste the job description to get questions aimed at its requirements"
+                className="w-full border-2 rounded-lg px-4 py-3 text-sm"
+                style={{ borderColor: "var(--border)", color: "var(--foreground)" }}
+            />
+
+            {fileError && <p className="text-red-500 text-sm">{fileError}</p>}
+
+            {value.trim() && !hasRequirements(context) && (
+                <p className="text-sm" style={{ color: "var(--text-secondary)" }}>
+                    No skills, technologies or responsibilities recognised yet.
+                </p>
+            )}
+
+            {hasRequirements(context) && (
+                <div className="space-y-2 text-sm" style={{ color: "var(--text-secondary)" }}>
+                    {context.technologies.length > 0 && (
+                        <div className="flex flex-wrap items-center gap-2">
+                            <span>Technologies:</span>
+                            {context.technologies.map((tech) => (
+                                <Chip key={tech} className="bg-blue-100 text-blue-800">
+                                    {tech}
+                                </Chip>
+                            ))}
+                        </div>
+                    )}
+                    {context.skills.length > 0 && (
+                        <div className="flex flex-wrap items-center gap-2">
+                            <span>Skills:</span>
+                            {context.skills.map((skill) => (
+                                <Chip key={skill} className="bg-green-100 text-green-800">
+                                    {skill}
+                                </Chip>
+                            ))}
+                        </div>
+                    )}
+                    {context.responsibilities.length > 0 && (
+                        <div>
+                            <span>Responsibilities:</span>
+                            <ul className="list-disc ml-5 mt-1">
+                                {context.responsibilities.map((responsibility) => (
+                                    <li key={responsibility}>{responsibility}</li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
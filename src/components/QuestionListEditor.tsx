@@ -0,0 +1,307 @@
+"use client";
+
+import { DragEvent, useState } from "react";
+import { ChevronDown, ChevronUp, GripVertical, Plus, RefreshCw, Trash2 } from "lucide-react";
+import { Question } from "@/lib/interviewSession";
+import { createCustomQuestion, MAX_QUESTION_LENGTH } from "@/lib/questionList";
+import {
+    MAX_QUESTIONS,
+    QUESTION_DIFFICULTIES,
+    QUESTION_TYPE_LABELS,
+    QUESTION_TYPES,
+} from "@/lib/questionMix";
+import { getTimeBudget } from "@/lib/timeBudget";
+
+interface QuestionListEditorProps {
+    questions: Question[];
+    types: Question["type"][]; // offered for new questions and retyping
+    timedMode: boolean;
+    regeneratingId: string | null;
+    onMove: (from: number, to: number) => void;
+    onRemove: (questionId: string) => void;
+    onUpdate: (questionId: string, changes: Partial<Pick<Question, "type" | "difficulty">>) => void;
+    onRegenerate: (question: Question) => void;
+    onAdd: (question: Question) => void;
+}
+
+const formatBudget = (seconds: number) =>
+    `${Math.floor(seconds / 60)
+        .toString()
+        .padStart(2, "0")}:${(seconds % 60).toString().padStart(2, "0")}`;
+
+const selectClassName = "text-xs px-2 py-1 rounded-full border-0 cursor-pointer";
+
+/**
+ * The generated questions, editable before the mock interview starts: drag cards (or use the
+ * arrows) to reorder, change a question's type or difficulty, swap one for a newly generated
+ * question, remove it, or add your own at the end.
+ */
+export default function QuestionListEditor({
+    questions,
+    types,
+    timedMode,
+    regeneratingId,
+    onMove,
+    onRemove,
+    onUpdate,
+    onRegenerate,
+    onAdd,
+}: QuestionListEditorProps) {
+    const [dragIndex, setDragIndex] = useState<number | null>(null);
+    const [dropIndex, setDropIndex] = useState<number | null>(null);
+    const [draft, setDraft] = useState("");
+    const [draftType, setDraftType] = useState<Question["type"]>("behavioral");
+    const [draftDifficulty, setDraftDifficulty] = useState<Question["difficulty"]>("medium");
+    const isFull = questions.length >= MAX_QUESTIONS;
+
+    // A question keeps its own type in the list even if the role doesn't offer it
+    const typesFor = (question: Question) =>
+        QUESTION_TYPES.filter((type) => types.includes(type) || type === question.type);
+
+    const handleDrop = (event: DragEvent, index: number) => {
+        event.preventDefault();
+        if (dragIndex !== null) onMove(dragIndex, index);
+        setDragIndex(null);
+        setDropIndex(null);
+    };
+
+    const addDraft = () => {
+        if (!draft.trim() || isFull) return;
+        onAdd(createCustomQuestion(draft, draftType, draftDifficulty));
+        setDraft("");
+    };
+
+    return (
+        <div className="space-y-4 max-w-4xl mx-auto">
+            {questions.map((questionObj, index) => (
+                <div
+                    key={questionObj.id || index}
+                    draggable
+                    onDragStart={(event) => {
+                        event.dataTransfer.effectAllowed = "move";
+                        setDragIndex(index);
+                    }}
+                    onDragOver={(event) => {
+                        event.preventDefault();
+                        setDropIndex(index);
+                    }}
+                    onDragEnd={() => {
+                        setDragIndex(null);
+                        setDropIndex(null);
+                    }}
+                    onDrop={(event) => handleDrop(event, index)}
+                    className={`card transition-opacity ${dragIndex === index ? "opacity-50" : ""}`}
+                    style={
+                        dropIndex === index && dragIndex !== index
+                            ? { outline: "2px dashed var(--accent)" }
+                            : undefined
+                    }
+                >
+                    <div className="flex items-start space-x-4">
+                        <div className="flex flex-col items-center gap-1">
+                            <GripVertical
+                                size={18}
+                                className="cursor-grab text-gray-400"
+                                aria-hidden
+                            />
+                            <div
+                                className="flex-shrink-0 w-10 h-10 rounded-full flex items-center justify-center text-sm font-medium text-white"
+                                style={{ backgroundColor: "var(--accent)" }}
+                            >
+                                {index + 1}
+                            </div>
+                        </div>
+                        <div className="flex-1">
+                            <div className="flex flex-wrap items-center gap-2 mb-2">
+                                {questionObj.stage && (
+                                    <span className="text-xs px-2 py-1 rounded-full bg-purple-100 text-purple-800">
+                                        {questionObj.stage}
+                                    </span>
+                                )}
+                                <select
+                                    value={questionObj.type}
+                                    onChange={(e) =>
+                                        onUpdate(questionObj.id, {
+                                            type: e.target.value as Question["type"],
+                                        })
+                                    }
+                                    aria-label={`Type of question ${index + 1}`}
+                                    className={`${selectClassName} bg-blue-100 text-blue-800`}
+                                >
+                                    {typesFor(questionObj).map((type) => (
+                                        <option key={type} value={type}>
+                                            {QUESTION_TYPE_LABELS[type]}
+                                        </option>
+                                    ))}
+                                </select>
+                                <select
+                                    value={questionObj.difficulty}
+                                    onChange={(e) =>
+                                        onUpdate(questionObj.id, {
+                                            difficulty: e.target.value as Question["difficulty"],
+                                        })
+                                    }
+                                    aria-label={`Difficulty of question ${index + 1}`}
+                                    className={`${selectClassName} bg-gray-100 text-gray-700`}
+                                >
+                                    {QUESTION_DIFFICULTIES.map((level) => (
+                                        <option key={level} value={level}>
+                                            {level}
+                                        </option>
+                                    ))}
+                                </select>
+                                {timedMode && (
+                                    <span className="text-xs px-2 py-1 rounded-full bg-yellow-100 text-yellow-800">
+                                        {formatBudget(getTimeBudget(questionObj))}
+                                    </span>
+                                )}
+                                {questionObj.previousScore !== undefined && (
+                                    <span className="text-xs px-2 py-1 rounded-full bg-orange-100 text-orange-800">
+                                        Revisit · last scored {questionObj.previousScore}/10
+                                    </span>
+                                )}
+                            </div>
+                            <p
+                                className="text-lg leading-relaxed"
+                                style={{ color: "var(--foreground)" }}
+                            >
+                                {questionObj.question}
+                            </p>
+                            {questionObj.covers && questionObj.covers.length > 0 && (
+                                <p
+                                    className="text-sm mt-2"
+                                    style={{ color: "var(--text-secondary)" }}
+                                >
+                                    Covers: {questionObj.covers.join(" · ")}
+                                </p>
+                            )}
+                            {questionObj.resumeItem && (
+                                <p
+                                    className="text-sm mt-2"
+                                    style={{ color: "var(--text-secondary)" }}
+                                >
+                                    From your resume: {questionObj.resumeItem}
+                                </p>
+                            )}
+                        </div>
+                        <div className="flex flex-col gap-1">
+                            <button
+                                type="button"
+                                onClick={() => onMove(index, index - 1)}
+                                disabled={index === 0}
+                                aria-label={`Move question ${index + 1} up`}
+                                className="p-1 rounded-lg text-gray-500 hover:bg-gray-100 disabled:opacity-30"
+                            >
+                                <ChevronUp size={18} />
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => onMove(index, index + 1)}
+                                disabled={index === questions.length - 1}
+                                aria-label={`Move question ${index + 1} down`}
+                                className="p-1 rounded-lg text-gray-500 hover:bg-gray-100 disabled:opacity-30"
+                            >
+                                <ChevronDown size={18} />
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => onRegenerate(questionObj)}
+                                disabled={regeneratingId !== null}
+                                aria-label={`Replace question ${index + 1} with a new one`}
+                                title="Replace with a new question"
+                                className="p-1 rounded-lg text-gray-500 hover:bg-gray-100 disabled:opacity-30"
+                            >
+                                <RefreshCw
+                                    size={18}
+                                    className={
+                                        regeneratingId === questionObj.id ? "animate-spin" : ""
+                                    }
+                                />
+                            </button>
+                            <button
+                                type="button"
+                                onClick={() => onRemove(questionObj.id)}
+                                aria-label={`Remove question ${index + 1}`}
+                                title="Remove"
+                                className="p-1 rounded-lg text-red-500 hover:bg-red-50"
+                            >
+                                <Trash2 size={18} />
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            ))}
+
+            {questions.length === 0 && (
+                <p className="text-center py-8" style={{ color: "var(--text-secondary)" }}>
+                    No questions left. Add your own below or generate a new set.
+                </p>
+            )}
+
+            <div className="card space-y-3">
+                <label
+                    htmlFor="custom-question"
+                    className="flex items-center gap-2 text-base font-medium"
+                    style={{ color: "var(--text-secondary)" }}
+                >
+                    <Plus size={20} />
+                    Add your own question
+                </label>
+                <textarea
+                    id="custom-question"
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    maxLength={MAX_QUESTION_LENGTH}
+                    placeholder="e.g. Tell me about a project you'd do differently today."
+                    rows={2}
+                    className="w-full border-2 rounded-lg px-4 py-3 resize-y"
+                    style={{ borderColor: "var(--border)", color: "var(--foreground)" }}
+                />
+                <div className="flex flex-wrap items-center gap-3">
+                    <select
+                        value={draftType}
+                        onChange={(e) => setDraftType(e.target.value as Question["type"])}
+                        aria-label="Type of your question"
+                        className="border-2 rounded-lg px-3 py-2"
+                        style={{ borderColor: "var(--border)", color: "var(--foreground)" }}
+                    >
+                        {types.map((type) => (
+                            <option key={type} value={type}>
+                                {QUESTION_TYPE_LABELS[type]}
+                            </option>
+                        ))}
+                    </select>
+                    <select
+                        value={draftDifficulty}
+                        onChange={(e) =>
+                            setDraftDifficulty(e.target.value as Question["difficulty"])
+                        }
+                        aria-label="Difficulty of your question"
+                        className="border-2 rounded-lg px-3 py-2"
+                        style={{ borderColor: "var(--border)", color: "var(--foreground)" }}
+                    >
+                        {QUESTION_DIFFICULTIES.map((level) => (
+                            <option key={level} value={level}>
+                                {level}
+                            </option>
+                        ))}
+                    </select>
+                    <button
+                        type="button"
+                        onClick={addDraft}
+                        disabled={!draft.trim() || isFull}
+                        className="btn-secondary px-6 py-2 flex items-center gap-2"
+                    >
+                        <Plus size={18} />
+                        Add question
+                    </button>
+                    {isFull && (
+                        <span className="text-sm" style={{ color: "var(--text-secondary)" }}>
+                            Interviews are capped at {MAX_QUESTIONS} questions
+                        </span>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
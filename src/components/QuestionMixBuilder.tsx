@@ -0,0 +1,100 @@
+"use client";
+
+import { Clock, ListChecks, Minus, Plus } from "lucide-react";
+import { Question } from "@/lib/interviewSession";
+import {
+    estimateSessionMinutes,
+    MAX_QUESTIONS,
+    MIN_QUESTIONS,
+    mixTotal,
+    QUESTION_TYPE_LABELS,
+    QuestionMix,
+} from "@/lib/questionMix";
+
+interface QuestionMixBuilderProps {
+    mix: QuestionMix;
+    difficulty: Question["difficulty"];
+    types: Question["type"][]; // the types offered for the role
+    onChange: (mix: QuestionMix) => void;
+}
+
+// Number of questions per type, capped so the whole interview stays within MAX_QUESTIONS
+export default function QuestionMixBuilder({
+    mix,
+    difficulty,
+    types,
+    onChange,
+}: QuestionMixBuilderProps) {
+    const total = mixTotal(mix);
+
+    const setCount = (type: Question["type"], count: number) => {
+        const others = total - mix[type];
+        const clamped = Math.min(Math.max(0, Math.floor(count) || 0), MAX_QUESTIONS - others);
+        onChange({ ...mix, [type]: clamped });
+    };
+
+    return (
+        <div className="space-y-3">
+            <label
+                className="flex items-center gap-2 text-base font-medium"
+                style={{ color: "var(--text-secondary)" }}
+            >
+                <ListChecks size={20} />
+                Question Mix
+            </label>
+
+            <div className="space-y-2">
+                {types.map((type) => (
+                    <div key={type} className="flex items-center justify-between gap-3">
+                        <span style={{ color: "var(--foreground)" }}>
+                            {QUESTION_TYPE_LABELS[type]}
+                        </span>
+                        <div className="flex items-center gap-2">
+                            <button
+                                type="button"
+                                onClick={() => setCount(type, mix[type] - 1)}
+                                disabled={mix[type] === 0}
+                                aria-label={`Fewer ${type} questions`}
+                                className="p-2 rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+                            >
+                                <Minus size={16} />
+                            </button>
+                            <input
+                                type="number"
+                                min={0}
+                                max={MAX_QUESTIONS}
+                                value={mix[type]}
+                                onChange={(e) => setCount(type, Number(e.target.value))}
+                                aria-label={`${QUESTION_TYPE_LABELS[type]} questions`}
+                                className="w-16 text-center border-2 rounded-lg px-2 py-1"
+                                style={{ borderColor: "var(--border)", color: "var(--foreground)" }}
+                            />
+                            <button
+                                type="button"
+                                onClick={() => setCount(type, mix[type] + 1)}
+                                disabled={total >= MAX_QUESTIONS}
+                                aria-label={`More ${type} questions`}
+                                className="p-2 rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+                            >
+                                <Plus size={16} />
+                            </button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            {total < MIN_QUESTIONS ? (
+                <p className="text-red-500 text-sm">Add at least one question</p>
+            ) : (
+                <p
+                    className="flex items-center gap-2 text-sm"
+                    style={{ color: "var(--text-secondary)" }}
+                >
+                    <Clock size={16} />
+                    {total} question{total === 1 ? "" : "s"} · {difficulty}-weighted · about{" "}
+                    {estimateSessionMinutes(mix, difficulty)} min
+                </p>
+            )}
+        </div>
+    );
+}
@@ -1,49 +1,64 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 
 interface QuestionTimerProps {
     duration: number; // seconds
+    initialRemaining?: number; // seconds, when resuming a partly used budget
     onTimeUp?: () => void;
     onTick?: (remaining: number) => void;
     autoStart?: boolean;
+    paused?: boolean; // lets the parent hold the countdown, e.g. while feedback loads
+    showControls?: boolean;
 }
 
 export default function QuestionTimer({
     duration,
+    initialRemaining,
     onTimeUp,
     onTick,
     autoStart = true,
+    paused = false,
+    showControls = true,
 }: QuestionTimerProps) {
-    const [timeRemaining, setTimeRemaining] = useState(duration);
-    const [isRunning, setIsRunning] = useState(autoStart);
+    const [timeRemaining, setTimeRemaining] = useState(initialRemaining ?? duration);
+    const [isRunning, setIsRunning] = useState(autoStart && (initialRemaining ?? duration) > 0);
     const [isPaused, setIsPaused] = useState(false);
+    const previousRemainingRef = useRef(timeRemaining);
+    const onTimeUpRef = useRef(onTimeUp);
+    const onTickRef = useRef(onTick);
 
     useEffect(() => {
-        if (!isRunning || isPaused) return;
+        onTimeUpRef.current = onTimeUp;
+        onTickRef.current = onTick;
+    });
+
+    useEffect(() => {
+        if (!isRunning || isPaused || paused) return;
 
         const interval = setInterval(() => {
-            setTimeRemaining((prev) => {
-                const newTime = prev - 1;
-
-                if (onTick) {
-                    onTick(newTime);
-                }
-
-                if (newTime <= 0) {
-                    setIsRunning(false);
-                    if (onTimeUp) {
-                        onTimeUp();
-                    }
-                    return 0;
-                }
-
-                return newTime;
-            });
+            setTimeRemaining((prev) => Math.max(prev - 1, 0));
         }, 1000);
 
         return () => clearInterval(interval);
-    }, [isRunning, isPaused, onTick, onTimeUp]);
+    }, [isRunning, isPaused, paused]);
+
+    // Callbacks run outside the state updater so they can safely update parent state
+    useEffect(() => {
+        if (timeRemaining === previousRemainingRef.current) return;
+        previousRemainingRef.current = timeRemaining;
+
+        if (onTickRef.current) {
+            onTickRef.current(timeRemaining);
+        }
+
+        if (timeRemaining <= 0) {
+            setIsRunning(false);
+            if (onTimeUpRef.current) {
+                onTimeUpRef.current();
+            }
+        }
+    }, [timeRemaining]);
 
     const formatTime = (seconds: number) => {
         const mins = Math.floor(seconds / 60);
@@ -97,20 +112,22 @@ export default function QuestionTimer({
                 </div>
 
                 {/* Controls */}
-                <div className="flex gap-2">
-                    <button
-                        onClick={handlePlayPause}
-                        className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
-                    >
-                        {!isRunning || isPaused ? "▶️ Start" : "⏸️ Pause"}
-                    </button>
-                    <button
-                        onClick={handleReset}
-                        className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors font-medium"
-                    >
-                        🔄 Reset
-                    </button>
-                </div>
+                {showControls && (
+                    <div className="flex gap-2">
+                        <button
+                            onClick={handlePlayPause}
+                            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
+                        >
+                            {!isRunning || isPaused ? "▶️ Start" : "⏸️ Pause"}
+                        </button>
+                        <button
+                            onClick={handleReset}
+                            className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors font-medium"
+                        >
+                            🔄 Reset
+                        </button>
+                    </div>
+                )}
             </div>
 
             {/* Progress Bar */}
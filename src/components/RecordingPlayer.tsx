@@ -0,0 +1,48 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { loadRecording } from "@/lib/recordingStore";
+
+interface RecordingPlayerProps {
+    recordingId: string;
+}
+
+export default function RecordingPlayer({ recordingId }: RecordingPlayerProps) {
+    const [audioURL, setAudioURL] = useState<string | null>(null);
+    const [missing, setMissing] = useState(false);
+
+    useEffect(() => {
+        let url: string | null = null;
+        let cancelled = false;
+
+        loadRecording(recordingId)
+            .then((recording) => {
+                if (cancelled) return;
+                if (!recording) {
+                    setMissing(true);
+                    return;
+                }
+                url = URL.createObjectURL(recording.blob);
+                setAudioURL(url);
+            })
+            .catch((error) => {
+                console.error("Error loading recording:", error);
+                if (!cancelled) setMissing(true);
+            });
+
+        return () => {
+            cancelled = true;
+            if (url) URL.revokeObjectURL(url);
+        };
+    }, [recordingId]);
+
+    if (missing) {
+        return (
+            <p className="text-xs text-gray-400">Recording no longer available on this device</p>
+        );
+    }
+
+    if (!audioURL) return null;
+
+    return <audio src={audioURL} className="w-full" controls />;
+}
@@ -0,0 +1,67 @@
+"use client";
+
+import { CheckCircle2, CircleDashed } from "lucide-react";
+import { JobDescriptionContext, listRequirements } from "@/lib/jobDescription";
+import { Question } from "@/lib/interviewSession";
+
+interface RequirementCoverageProps {
+    jobDescription: JobDescriptionContext;
+    questions: Question[];
+}
+
+// Shows which job description requirements the question set covers and which it misses
+export default function RequirementCoverage({
+    jobDescription,
+    questions,
+}: RequirementCoverageProps) {
+    const requirements = listRequirements(jobDescription);
+    const covered = new Set(questions.flatMap((q) => q.covers ?? []));
+    const gaps = requirements.filter((r) => !covered.has(r.text));
+
+    return (
+        <div className="card max-w-4xl mx-auto space-y-4">
+            <div className="flex items-center justify-between">
+                <h3 className="text-lg font-medium" style={{ color: "var(--foreground)" }}>
+                    Job Description Coverage
+                </h3>
+                <span className="text-sm" style={{ color: "var(--text-secondary)" }}>
+                    {requirements.length - gaps.length} of {requirements.length} requirements
+                </span>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                <div className="space-y-2">
+                    <p className="font-medium text-green-700">Covered</p>
+                    {requirements
+                        .filter((r) => covered.has(r.text))
+                        .map((r) => (
+                            <p key={r.text} className="flex items-start gap-2">
+                                <CheckCircle2
+                                    size={16}
+                                    className="text-green-600 mt-0.5 shrink-0"
+                                />
+                                <span style={{ color: "var(--foreground)" }}>{r.text}</span>
+                            </p>
+                        ))}
+                    {gaps.length === requirements.length && (
+                        <p style={{ color: "var(--text-secondary)" }}>None yet</p>
+                    )}
+                </div>
+                <div className="space-y-2">
+                    <p className="font-medium text-amber-700">Not covered</p>
+                    {gaps.map((r) => (
+                        <p key={r.text} className="flex items-start gap-2">
+                            <CircleDashed size={16} className="text-amber-600 mt-0.5 shrink-0" />
+                            <span style={{ color: "var(--foreground)" }}>{r.text}</span>
+                        </p>
+                    ))}
+                    {gaps.length === 0 && (
+                        <p style={{ color: "var(--text-secondary)" }}>
+                            Every requirement is covered
+                        </p>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
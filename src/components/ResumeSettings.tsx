@@ -0,0 +1,146 @@
+"use client";
+
+import { ChangeEvent, useEffect, useRef, useState } from "react";
+import toast from "react-hot-toast";
+import { Trash2, Upload } from "lucide-react";
+import { ResumeResponse, StoredResume } from "@/lib/apiTypes";
+import { describeExperience, RESUME_ACCEPT } from "@/lib/resume";
+
+// Upload, preview and remove the resume used to tailor questions and check answers
+export default function ResumeSettings() {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [resume, setResume] = useState<StoredResume | null>(null);
+    const [isUploading, setIsUploading] = useState(false);
+
+    useEffect(() => {
+        const fetchResume = async () => {
+            try {
+                const response = await fetch("/api/resume");
+                if (!response.ok) throw new Error("Failed to load resume");
+
+                const data: ResumeResponse = await response.json();
+                setResume(data.resume);
+            } catch (error) {
+                console.error("Error fetching resume:", error);
+            }
+        };
+        fetchResume();
+    }, []);
+
+    const updateResume = async (init: RequestInit, success: string) => {
+        setIsUploading(true);
+        try {
+            const response = await fetch("/api/resume", init);
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error || "Failed to update resume");
+
+            setResume((data as ResumeResponse).resume);
+            toast.success(success);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Failed to update resume");
+        } finally {
+            setIsUploading(false);
+        }
+    };
+
+    const handleFile = (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = "";
+        if (!file) return;
+
+        const body = new FormData();
+        body.append("file", file);
+        updateResume({ method: "POST", body }, "Resume uploaded");
+    };
+
+    const parsed = resume?.parsed;
+
+    return (
+        <section className="bg-white p-6 rounded-xl shadow-sm space-y-4">
+            <h2 className="text-xl font-bold text-gray-800">Resume</h2>
+            <p className="text-sm text-gray-600">
+                Upload a PDF or Word resume to get questions about your own roles and projects, and
+                feedback that checks your answers against it. Only what we read from the file is
+                kept, not the file itself.
+            </p>
+
+            {resume && parsed && (
+                <div className="space-y-3 text-sm text-gray-700">
+                    <p className="text-gray-500">
+                        {resume.fileName} · updated{" "}
+                        {new Date(resume.updatedAt).toLocaleDateString()}
+                    </p>
+                    {parsed.experience.length > 0 && (
+                        <div>
+                            <h3 className="font-semibold text-gray-800">Experience</h3>
+                            <ul className="list-disc list-inside">
+                                {parsed.experience.map((entry, i) => (
+                                    <li key={i}>
+                                        {describeExperience(entry)}
+                                        {entry.period && (
+                                            <span className="text-gray-500"> · {entry.period}</span>
+                                        )}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                    {parsed.projects.length > 0 && (
+                        <div>
+                            <h3 className="font-semibold text-gray-800">Projects</h3>
+                            <ul className="list-disc list-inside">
+                                {parsed.projects.map((project, i) => (
+                                    <li key={i}>{project.name}</li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                    {parsed.skills.length > 0 && (
+                        <div className="flex flex-wrap gap-2">
+                            {parsed.skills.map((skill) => (
+                                <span
+                                    key={skill}
+                                    className="text-xs px-2 py-1 rounded-full bg-gray-100 text-gray-700"
+                                >
+                                    {skill}
+                                </span>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+
+            <div className="flex flex-wrap gap-3">
+                <button
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isUploading}
+                    className="btn-primary px-4 py-2 flex items-center gap-2"
+                >
+                    <Upload size={18} />
+                    {isUploading
+                        ? "Reading resume..."
+                        : resume
+                          ? "Replace resume"
+                          : "Upload resume"}
+                </button>
+                {resume && (
+                    <button
+                        onClick={() => updateResume({ method: "DELETE" }, "Resume removed")}
+                        disabled={isUploading}
+                        className="btn-secondary px-4 py-2 flex items-center gap-2"
+                    >
+                        <Trash2 size={18} />
+                        Remove
+                    </button>
+                )}
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept={RESUME_ACCEPT}
+                    onChange={handleFile}
+                    className="hidden"
+                />
+            </div>
+        </section>
+    );
+}
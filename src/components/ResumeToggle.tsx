@@ -0,0 +1,74 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useSession } from "next-auth/react";
+import { FileUser } from "lucide-react";
+import { ResumeResponse } from "@/lib/apiTypes";
+
+interface ResumeToggleProps {
+    enabled: boolean;
+    onChange: (enabled: boolean) => void;
+}
+
+// Lets signed-in users tailor an interview to their stored resume; guests don't see it
+export default function ResumeToggle({ enabled, onChange }: ResumeToggleProps) {
+    const { status } = useSession();
+    const [fileName, setFileName] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (status !== "authenticated") return;
+
+        const fetchResume = async () => {
+            try {
+                const response = await fetch("/api/resume");
+                if (!response.ok) throw new Error("Failed to load resume");
+
+                const data: ResumeResponse = await response.json();
+                setFileName(data.resume?.fileName ?? null);
+            } catch (error) {
+                console.error("Error fetching resume:", error);
+            }
+        };
+        fetchResume();
+    }, [status]);
+
+    if (status !== "authenticated") return null;
+
+    return (
+        <div className="space-y-2">
+            <label
+                className="flex items-center gap-2 text-base font-medium"
+                style={{ color: "var(--text-secondary)" }}
+            >
+                <FileUser size={20} />
+                Resume
+            </label>
+            {fileName ? (
+                <label
+                    className="flex items-center gap-3 text-sm"
+                    style={{ color: "var(--foreground)" }}
+                >
+                    <input
+                        type="checkbox"
+                        checked={enabled}
+                        onChange={(e) => onChange(e.target.checked)}
+                        className="w-4 h-4"
+                    />
+                    Ask about my experience and check answers against {fileName}
+                </label>
+            ) : (
+                <p className="text-sm" style={{ color: "var(--text-secondary)" }}>
+                    <Link
+                        href="/settings"
+                        className="hover:underline"
+                        style={{ color: "var(--accent)" }}
+                    >
+                        Upload a resume
+                    </Link>{" "}
+                    to get questions about your own roles and projects.
+                </p>
+            )}
+        </div>
+    );
+}
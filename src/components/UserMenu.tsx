@@ -209,6 +209,76 @@ export default function UserMenu() {
                             <span className="font-medium">Dashboard</span>
                         </a>
 
+                        {session.user.role === "admin" && (
+                            <a
+                                href="/admin"
+                                onClick={() => setIsOpen(false)}
+                                className="flex items-center w-full px-4 py-3 text-sm transition-colors group user-menu-item rounded-lg mx-2"
+                                style={{
+                                    color: "var(--foreground)",
+                                }}
+                                onMouseEnter={(e) => {
+                                    e.currentTarget.style.background = "var(--accent-light)";
+                                }}
+                                onMouseLeave={(e) => {
+                                    e.currentTarget.style.background = "transparent";
+                                }}
+                            >
+                                <svg
+                                    className="w-4 h-4 mr-3 transition-colors"
+                                    style={{ color: "var(--text-secondary)" }}
+                                    fill="none"
+                                    stroke="currentColor"
+                                    viewBox="0 0 24 24"
+                                >
+                                    <path
+                                        strokeLinecap="round"
+                                        strokeLinejoin="round"
+                                        strokeWidth={2}
+                                        d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z"
+                                    />
+                                </svg>
+                                <span className="font-medium">Admin</span>
+                            </a>
+                        )}
+
+                        <a
+                            href="/settings"
+                            onClick={() => setIsOpen(false)}
+                            className="flex items-center w-full px-4 py-3 text-sm transition-colors group user-menu-item rounded-lg mx-2"
+                            style={{
+                                color: "var(--foreground)",
+                            }}
+                            onMouseEnter={(e) => {
+                                e.currentTarget.style.background = "var(--accent-light)";
+                            }}
+                            onMouseLeave={(e) => {
+                                e.currentTarget.style.background = "transparent";
+                            }}
+                        >
+                            <svg
+                                className="w-4 h-4 mr-3 transition-colors"
+                                style={{ color: "var(--text-secondary)" }}
+                                fill="none"
+                                stroke="currentColor"
+                                viewBox="0 0 24 24"
+                            >
+                                <path
+                                    strokeLinecap="round"
+                                    strokeLinejoin="round"
+                                    strokeWidth={2}
+                                    d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z"
+                                />
+                                <path
+                                    strokeLinecap="round"
+                                    strokeLinejoin="round"
+                                    strokeWidth={2}
+                                    d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"
+                                />
+                            </svg>
+                            <span className="font-medium">Settings</span>
+                        </a>
+
                         <button
                             onClick={() => {
                                 setIsOpen(false);
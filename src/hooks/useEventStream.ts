@@ -0,0 +1,82 @@
+import { useState, useRef, useCallback, useEffect } from "react";
+import { readSseEvents } from "@/lib/sse";
+
+/**
+ * POSTs to a streaming route and accumulates `token` events into `text`.
+ * Resolves with the `done` payload, or null when the request was cancelled.
+ */
+export function useEventStream<T>() {
+    const [text, setText] = useState("");
+    const [isStreaming, setIsStreaming] = useState(false);
+    const controllerRef = useRef<AbortController | null>(null);
+
+    const start = useCallback(async (url: string, body: unknown): Promise<T | null> => {
+        controllerRef.current?.abort();
+        const controller = new AbortController();
+        controllerRef.current = controller;
+
+        setText("");
+        setIsStreaming(true);
+
+        try {
+            const response = await fetch(url, {
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                    Accept: "text/event-stream",
+                },
+                body: JSON.stringify(body),
+                signal: controller.signal,
+            });
+
+            if (!response.ok || !response.body) {
+                const errorData = await response.json().catch(() => ({}));
+                throw new Error(errorData.error || "Request failed");
+            }
+
+            for await (const message of readSseEvents(response.body)) {
+                const data = JSON.parse(message.data);
+
+                if (message.event === "token") {
+                    setText((prev) => prev + data.text);
+                } else if (message.event === "done") {
+                    return data as T;
+                } else if (message.event === "error") {
+                    throw new Error(data.error || "Stream failed");
+                }
+            }
+
+            throw new Error("Stream ended unexpectedly");
+        } catch (error) {
+            if (controller.signal.aborted) {
+                return null;
+            }
+            throw error;
+        } finally {
+            if (controllerRef.current === controller) {
+                controllerRef.current = null;
+                setIsStreaming(false);
+            }
+        }
+    }, []);
+
+    const cancel = useCallback(() => {
+        controllerRef.current?.abort();
+    }, []);
+
+    const reset = useCallback(() => {
+        controllerRef.current?.abort();
+        setText("");
+    }, []);
+
+    // Don't leave requests running after unmount
+    useEffect(() => () => controllerRef.current?.abort(), []);
+
+    return {
+        text,
+        isStreaming,
+        start,
+        cancel,
+        reset,
+    };
+}
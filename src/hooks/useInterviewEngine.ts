@@ -0,0 +1,53 @@
+import { useEffect, useReducer } from "react";
+import {
+    initialInterviewState,
+    interviewReducer,
+    selectCurrentQuestion,
+    selectCurrentResponse,
+    selectOvertime,
+    selectTimeLimit,
+} from "@/lib/interviewEngine";
+import { clearInterviewSession, saveInterviewSession } from "@/lib/interviewSession";
+import { saveGuestInterview } from "@/lib/guestHistory";
+
+/**
+ * Runs the interview engine for a component: persists the session while it is in progress
+ * and ticks the answer clock. Pass `clockPaused` to hold the clock, e.g. while feedback streams,
+ * and `keepGuestHistory` to keep a signed-out visitor's interviews locally, answers included.
+ */
+export function useInterviewEngine({ clockPaused = false, keepGuestHistory = false } = {}) {
+    const [state, dispatch] = useReducer(interviewReducer, initialInterviewState);
+
+    // Persist the in-progress interview as it changes
+    useEffect(() => {
+        if (state.currentStep === "questions" || state.currentStep === "mock") {
+            saveInterviewSession(state);
+            // Kept as they go, so a guest who signs in mid-interview keeps the answers so far
+            if (keepGuestHistory) saveGuestInterview(state);
+        } else if (state.currentStep === "complete") {
+            clearInterviewSession();
+            if (keepGuestHistory) saveGuestInterview(state);
+        }
+    }, [state, keepGuestHistory]);
+
+    const clockRunning = state.currentStep === "mock" && !state.showFeedback && !clockPaused;
+
+    useEffect(() => {
+        if (!clockRunning) return;
+
+        const intervalId = setInterval(() => dispatch({ type: "TICK" }), 1000);
+        return () => clearInterval(intervalId);
+    }, [clockRunning, state.currentQuestionIndex]);
+
+    const currentResponse = selectCurrentResponse(state);
+
+    return {
+        state,
+        dispatch,
+        currentQuestion: selectCurrentQuestion(state),
+        currentResponse,
+        followUps: currentResponse?.followUps ?? [],
+        timeLimit: selectTimeLimit(state),
+        overtime: selectOvertime(state),
+    };
+}
@@ -1,4 +1,4 @@
-import { useState, useRef, useCallback } from "react";
+import { useState, useRef, useCallback, useEffect } from "react";
 import toast from "react-hot-toast";
 
 interface UseVoiceRecordingOptions {
@@ -19,6 +19,13 @@ export function useVoiceRecording(options: UseVoiceRecordingOptions = {}) {
     const timerRef = useRef<NodeJS.Timeout | null>(null);
     const startTimeRef = useRef<number>(0);
     const pausedTimeRef = useRef<number>(0);
+    const recordingTimeRef = useRef<number>(0);
+    // Read the latest callback when recording stops, not the one captured at start
+    const onRecordingCompleteRef = useRef(onRecordingComplete);
+
+    useEffect(() => {
+        onRecordingCompleteRef.current = onRecordingComplete;
+    }, [onRecordingComplete]);
 
     const startRecording = useCallback(async () => {
         try {
@@ -40,8 +47,8 @@ export function useVoiceRecording(options: UseVoiceRecordingOptions = {}) {
                 const url = URL.createObjectURL(blob);
                 setAudioURL(url);
 
-                if (onRecordingComplete) {
-                    onRecordingComplete(blob, recordingTime);
+                if (onRecordingCompleteRef.current) {
+                    onRecordingCompleteRef.current(blob, recordingTimeRef.current);
                 }
 
                 // Stop all tracks
@@ -60,6 +67,7 @@ export function useVoiceRecording(options: UseVoiceRecordingOptions = {}) {
                 const elapsed = Math.floor(
                     (Date.now() - startTimeRef.current - pausedTimeRef.current) / 1000
                 );
+                recordingTimeRef.current = elapsed;
                 setRecordingTime(elapsed);
 
                 // Auto-stop at max duration
@@ -81,7 +89,7 @@ export function useVoiceRecording(options: UseVoiceRecordingOptions = {}) {
             console.error("Error starting recording:", error);
             toast.error("Failed to access microphone. Please grant permission.");
         }
-    }, [maxDuration, onRecordingComplete, recordingTime]);
+    }, [maxDuration]);
 
     const pauseRecording = useCallback(() => {
         if (mediaRecorderRef.current && isRecording && !isPaused) {
@@ -121,6 +129,7 @@ export function useVoiceRecording(options: UseVoiceRecordingOptions = {}) {
         }
         setAudioURL(null);
         setRecordingTime(0);
+        recordingTimeRef.current = 0;
         pausedTimeRef.current = 0;
         chunksRef.current = [];
     }, [audioURL]);
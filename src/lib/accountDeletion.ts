@@ -0,0 +1,11 @@
+// Deleting an account only schedules it. Users can cancel from the settings page until the
+// grace period ends; the purge job then removes the backend data and the user row.
+
+export const DELETION_GRACE_DAYS = 30;
+
+// Typed so the word has to be entered deliberately rather than clicked through
+export const DELETION_CONFIRMATION = "DELETE";
+
+export function deletionDate(now = new Date()): Date {
+    return new Date(now.getTime() + DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000);
+}
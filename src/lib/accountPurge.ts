@@ -0,0 +1,57 @@
+import { backendFetch, BackendError } from "@/lib/backend";
+import { prisma } from "@/lib/prisma";
+import { parseRole } from "@/lib/roles";
+
+// Server-side half of account deletion: removes accounts whose grace period has ended
+
+interface ScheduledUser {
+    id: number;
+    email: string | null;
+    name: string | null;
+    image: string | null;
+    role: string;
+}
+
+/**
+ * Deletes one account for good. The purge job acts as the user being removed, whatever
+ * session the request has, and asks the backend to drop their data first.
+ */
+export async function purgeAccount(user: ScheduledUser): Promise<void> {
+    if (user.email) {
+        const response = await backendFetch("/api/db/users/me", {
+            method: "DELETE",
+            identity: {
+                email: user.email,
+                name: user.name,
+                image: user.image,
+                role: parseRole(user.role),
+            },
+        });
+        // Nothing stored on the backend is as good as deleted
+        if (!response.ok && response.status !== 404) {
+            throw new BackendError("Failed to delete backend data", response.status);
+        }
+    }
+
+    // Accounts and sessions go with the user row
+    await prisma.user.delete({ where: { id: user.id } });
+}
+
+// Purges every account whose grace period has ended and returns how many were removed
+export async function purgeDueAccounts(now = new Date()): Promise<number> {
+    const due: ScheduledUser[] = await prisma.user.findMany({
+        where: { deletionScheduledAt: { lte: now } },
+    });
+
+    let purged = 0;
+    for (const user of due) {
+        try {
+            await purgeAccount(user);
+            purged++;
+        } catch (error) {
+            // Leave it scheduled; the next run retries
+            console.error(`Failed to purge account ${user.id}:`, error);
+        }
+    }
+    return purged;
+}
@@ -0,0 +1,27 @@
+import { AdminUser } from "@/lib/apiTypes";
+import { parseRole } from "@/lib/roles";
+
+export const ADMIN_USERS_PAGE_SIZE = 100;
+
+// The columns of a Prisma User row the admin console shows
+interface UserRow {
+    id: number;
+    name: string | null;
+    email: string | null;
+    image: string | null;
+    role: string;
+    createdAt: Date;
+    suspendedAt: Date | null;
+}
+
+export function toAdminUser(user: UserRow): AdminUser {
+    return {
+        id: user.id,
+        name: user.name,
+        email: user.email,
+        image: user.image,
+        role: parseRole(user.role),
+        createdAt: user.createdAt.toISOString(),
+        suspendedAt: user.suspendedAt?.toISOString() ?? null,
+    };
+}
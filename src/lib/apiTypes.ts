@@ -0,0 +1,322 @@
+// Response shapes shared by the route handlers under src/app/api and the components that call them
+
+import { Question, QuestionSource } from "@/lib/interviewSession";
+import { QuestionMix } from "@/lib/questionMix";
+import { AnsweredQuestion } from "@/lib/questionHistory";
+import { ParsedResume } from "@/lib/resume";
+import { Role } from "@/lib/roles";
+
+export interface BackendUser {
+    id: number;
+    email: string;
+    name: string | null;
+    image?: string | null;
+}
+
+export interface UserResponse {
+    success: boolean;
+    user?: BackendUser;
+    message?: string;
+}
+
+export interface GenerateQuestionsResponse {
+    questions: Question[];
+    questionSetId?: string;
+    source?: QuestionSource;
+    bankVersion?: number; // only for questions from the local bank
+    replacedRepeats?: number; // near-duplicates of answered questions that were swapped out
+    shortfall?: QuestionMix; // questions of each type that couldn't be found for the mix
+}
+
+export interface SaveQuestionSetResponse {
+    success: boolean;
+}
+
+// Newest first, at most MAX_ANSWERED_QUESTIONS
+export interface AnsweredQuestionsResponse {
+    questions: AnsweredQuestion[];
+}
+
+// Dashboard
+
+export interface InterviewHistoryItem {
+    id: number;
+    jobRole: string;
+    company: string;
+    createdAt: string;
+    status: string;
+    overallScore: number | null;
+}
+
+export interface InterviewHistoryResponse {
+    interviews: InterviewHistoryItem[];
+}
+
+export interface UserStats {
+    totalInterviews: number;
+    totalAnswers: number;
+    averageRelevance: string;
+    averageClarity: string;
+    averageDepth: string;
+    averageScore: number;
+    behavioralSkill: number;
+    technicalSkill: number;
+    communicationSkill: number;
+    currentStreak: number;
+}
+
+export interface UserStatsResponse {
+    stats: UserStats;
+}
+
+// Analytics page
+
+export interface PerformanceData {
+    date: string;
+    averageRelevance: number;
+    averageClarity: number;
+    averageDepth: number;
+    averageOverall: number;
+    questionsAnswered: number;
+}
+
+export interface WeakArea {
+    type?: string;
+    category?: string;
+    averageScore: number;
+    count: number;
+}
+
+export interface SkillProgression {
+    behavioral: number;
+    technical: number;
+    situational: number;
+    communication: number;
+}
+
+export interface Analytics {
+    performanceOverTime: PerformanceData[];
+    weakAreas: {
+        weakTypes: WeakArea[];
+        weakCategories: WeakArea[];
+    };
+    skillProgression: SkillProgression;
+    userStats: {
+        totalInterviews: number;
+        totalAnswers: number;
+        averageScore: number;
+        currentStreak: number;
+    };
+}
+
+export interface AnalyticsResponse {
+    analytics: Analytics;
+}
+
+// Interview details page
+
+export interface InterviewAnswer {
+    id: number;
+    question: string;
+    answer: string;
+    relevanceScore: number | null;
+    clarityScore: number | null;
+    depthScore: number | null;
+    overallScore: number | null;
+    strengths: string[] | null;
+    improvements: string[] | null;
+    resumeNotes?: string[] | null;
+    diagram?: unknown; // system design answers; the graph as stored, read with toDesignDiagram
+    createdAt: string;
+    timeSpent: number | null;
+}
+
+export interface InterviewDetails {
+    interview: {
+        id: number;
+        jobRole: string;
+        company: string;
+        experience: string;
+        difficulty: string;
+        status: string;
+        duration: number | null;
+        createdAt: string;
+    };
+    answers: InterviewAnswer[];
+}
+
+export interface InterviewDetailsResponse {
+    success: boolean;
+    details?: InterviewDetails;
+    message?: string;
+}
+
+// Bookmarks
+
+export interface SavedQuestionSet {
+    id: number;
+    title: string;
+    description: string | null;
+    questions: Question[];
+    tags: string[];
+    isFavorite: boolean;
+    practiceCount: number;
+    createdAt: string;
+}
+
+export interface BookmarksResponse {
+    success: boolean;
+    data: SavedQuestionSet[];
+}
+
+export interface BookmarkTagsResponse {
+    success: boolean;
+    data: string[];
+}
+
+export interface FavoriteResponse {
+    success: boolean;
+    data: { isFavorite: boolean };
+}
+
+export interface DeleteBookmarkResponse {
+    success: boolean;
+}
+
+// History analytics
+
+export interface HistoryAnalytics {
+    period: {
+        days: number;
+        startDate: string;
+        endDate: string;
+    };
+    overview: {
+        totalInterviews: number;
+        completedInterviews: number;
+        totalQuestionsAnswered: number;
+        averageScore: string;
+    };
+    scores: {
+        overall: string;
+        relevance: string;
+        clarity: string;
+        depth: string;
+        communication: string;
+    };
+    skills: {
+        behavioral: number;
+        technical: number;
+        situational: number;
+        communication: number;
+    };
+    streaks: {
+        current: number;
+        longest: number;
+        lastPractice: string;
+    };
+    trend: {
+        trend: string;
+        change: number;
+        data: Array<{
+            week: string;
+            avgScore: number;
+            count: number;
+        }>;
+    };
+    recentActivity: Array<{
+        id: number;
+        role: string;
+        company: string;
+        date: string;
+        status: string;
+    }>;
+}
+
+export interface HistoryAnalyticsResponse {
+    data: HistoryAnalytics;
+}
+
+// Guest history
+
+export interface GuestImportResponse {
+    imported: number; // interviews added to the account
+    skipped: number; // already imported earlier, e.g. from another tab
+}
+
+// Resume
+
+export interface StoredResume {
+    fileName: string;
+    updatedAt: string;
+    parsed: ParsedResume;
+}
+
+export interface ResumeResponse {
+    resume: StoredResume | null;
+}
+
+// Account
+
+export interface AccountProfile {
+    id: number;
+    name: string | null;
+    email: string | null;
+    image: string | null;
+    role: Role;
+    createdAt: string;
+    linkedProviders: string[];
+}
+
+// Everything the backend holds for the signed-in user
+export interface BackendAccountData {
+    interviews: InterviewDetails[];
+    bookmarks: SavedQuestionSet[]; // saved question sets, as listed in the bookmark manager
+}
+
+export interface AccountExport extends BackendAccountData {
+    exportedAt: string;
+    profile: AccountProfile;
+    resume: StoredResume | null;
+}
+
+export interface AccountDeletionResponse {
+    scheduledFor: string | null;
+}
+
+// Admin
+
+export interface AdminUser {
+    id: number;
+    name: string | null;
+    email: string | null;
+    image: string | null;
+    role: Role;
+    createdAt: string;
+    suspendedAt: string | null;
+}
+
+export interface AdminUsersResponse {
+    users: AdminUser[];
+}
+
+export interface AdminUserResponse {
+    user: AdminUser;
+}
+
+export interface AdminInterview extends InterviewHistoryItem {
+    userId: number;
+    userEmail: string | null;
+}
+
+export interface GenerationVolumeDay {
+    date: string;
+    questionSets: number;
+    questions: number;
+    feedback: number;
+}
+
+export interface AdminActivityResponse {
+    recentInterviews: AdminInterview[];
+    generationVolume: GenerationVolumeDay[];
+}
@@ -1,14 +1,147 @@
 import { AuthOptions } from "next-auth";
+import { Adapter, AdapterUser } from "next-auth/adapters";
+import { Provider } from "next-auth/providers/index";
+import { PrismaAdapter } from "@next-auth/prisma-adapter";
 import GoogleProvider from "next-auth/providers/google";
+import GitHubProvider from "next-auth/providers/github";
+import EmailProvider from "next-auth/providers/email";
+import CredentialsProvider from "next-auth/providers/credentials";
+import { getCredentialsUsers, verifyPassword } from "@/lib/password";
+import { prisma } from "@/lib/prisma";
+import { isBootstrapAdmin, parseRole } from "@/lib/roles";
+
+// User ids are integers in the database, but NextAuth passes the JWT subject back as a string
+function numericIdAdapter(): Adapter {
+    return {
+        ...PrismaAdapter(prisma),
+        async getUser(id) {
+            const user = await prisma.user.findUnique({ where: { id: Number(id) } });
+            return user as unknown as AdapterUser | null;
+        },
+    };
+}
+
+// Each provider is switched on by its environment variables, so the sign-in page only
+// offers what this deployment has configured.
+function configuredProviders(): Provider[] {
+    const providers: Provider[] = [];
+
+    if (process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET) {
+        providers.push(
+            GoogleProvider({
+                clientId: process.env.GOOGLE_CLIENT_ID,
+                clientSecret: process.env.GOOGLE_CLIENT_SECRET,
+            })
+        );
+    }
+
+    if (process.env.GITHUB_CLIENT_ID && process.env.GITHUB_CLIENT_SECRET) {
+        providers.push(
+            GitHubProvider({
+                clientId: process.env.GITHUB_CLIENT_ID,
+                clientSecret: process.env.GITHUB_CLIENT_SECRET,
+            })
+        );
+    }
+
+    if (process.env.EMAIL_SERVER && process.env.EMAIL_FROM) {
+        providers.push(
+            EmailProvider({
+                server: process.env.EMAIL_SERVER,
+                from: process.env.EMAIL_FROM,
+                maxAge: 24 * 60 * 60, // magic links stay valid for a day
+            })
+        );
+    }
+
+    if (getCredentialsUsers().length > 0) {
+        providers.push(
+            CredentialsProvider({
+                name: "Email and password",
+                credentials: {
+                    email: { label: "Email", type: "email" },
+                    password: { label: "Password", type: "password" },
+                },
+                async authorize(credentials) {
+                    const email = credentials?.email?.trim().toLowerCase();
+                    if (!email || !credentials?.password) return null;
+
+                    const account = getCredentialsUsers().find((u) => u.email === email);
+                    if (!account || !verifyPassword(credentials.password, account.passwordHash)) {
+                        return null;
+                    }
+
+                    // Password users get the same database row as any other sign-in method
+                    const user = await prisma.user.upsert({
+                        where: { email },
+                        update: {},
+                        create: { email, name: email.split("@")[0] },
+                    });
+                    return {
+                        id: String(user.id),
+                        email: user.email,
+                        name: user.name,
+                        image: user.image,
+                    };
+                },
+            })
+        );
+    }
+
+    return providers;
+}
+
+const providers = configuredProviders();
 
 export const authOptions: AuthOptions = {
-    providers: [
-        GoogleProvider({
-            clientId: process.env.GOOGLE_CLIENT_ID!,
-            clientSecret: process.env.GOOGLE_CLIENT_SECRET!,
-        }),
-    ],
+    adapter: numericIdAdapter(),
+    providers,
+    session: {
+        // Password sign-in can only issue JWT sessions; otherwise sessions live in the database
+        strategy: providers.some((p) => p.type === "credentials") ? "jwt" : "database",
+    },
+    callbacks: {
+        async signIn({ user }) {
+            if (!user.email) return true;
+
+            // Suspended accounts land back on the sign-in page with an AccessDenied error
+            const existing = await prisma.user.findUnique({ where: { email: user.email } });
+            return !existing?.suspendedAt;
+        },
+        async jwt({ token }) {
+            if (!token.sub) return token;
+
+            // Re-read the row so role changes and suspensions reach JWT sessions on their next
+            // request. Throwing makes NextAuth clear the session cookie.
+            const user = await prisma.user.findUnique({ where: { id: Number(token.sub) } });
+            if (!user || user.suspendedAt) {
+                throw new Error("Account is suspended or no longer exists");
+            }
+            return { ...token, role: parseRole(user.role) };
+        },
+        async session({ session, user, token }) {
+            // Database sessions carry the user row, JWT sessions its id as the subject
+            const id = user?.id ?? token?.sub;
+            if (session.user && id !== undefined) {
+                session.user.id = Number(id);
+                session.user.role = parseRole(user?.role ?? token?.role);
+            }
+            return session;
+        },
+    },
+    events: {
+        async signIn({ user }) {
+            if (!isBootstrapAdmin(user.email)) return;
+
+            await prisma.user.updateMany({
+                where: { email: user.email, role: { not: "admin" } },
+                data: { role: "admin" },
+            });
+        },
+    },
     pages: {
         signIn: "/auth/signin",
+        error: "/auth/signin",
+        verifyRequest: "/auth/verify-request",
     },
 };
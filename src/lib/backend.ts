@@ -0,0 +1,132 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { Identity, signIdentityToken } from "@/lib/identityToken";
+
+// Server-side client for the PrepForge backend. Route handlers under src/app/api
+// go through here so the base URL, timeouts, identity and error mapping live in one place.
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+export class BackendError extends Error {
+    status: number;
+    details?: unknown;
+
+    constructor(message: string, status: number, details?: unknown) {
+        super(message);
+        this.name = "BackendError";
+        this.status = status;
+        this.details = details;
+    }
+}
+
+export function getBackendUrl(): string {
+    // NEXT_PUBLIC_API_URL is still honoured for deployments configured before the BFF layer
+    return process.env.BACKEND_URL || process.env.NEXT_PUBLIC_API_URL || "http://localhost:5002";
+}
+
+export interface BackendRequestInit extends Omit<RequestInit, "body"> {
+    body?: BodyInit | Record<string, unknown>;
+    timeoutMs?: number;
+    identity?: Identity; // acts for this user instead of the session's, e.g. in scheduled jobs
+}
+
+// Identity only ever comes from the server, signed so the backend can trust it: the session's
+// user unless the caller names one explicitly
+async function identityHeaders(identity?: Identity): Promise<Record<string, string>> {
+    if (identity) return { Authorization: `Bearer ${signIdentityToken(identity)}` };
+
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) return {};
+
+    const token = signIdentityToken({
+        email: session.user.email,
+        name: session.user.name ?? null,
+        image: session.user.image ?? null,
+        role: session.user.role,
+    });
+    return { Authorization: `Bearer ${token}` };
+}
+
+/**
+ * Calls the backend and returns the raw response, e.g. for streaming bodies.
+ * Plain objects are sent as JSON; the request is aborted after `timeoutMs` or when
+ * the caller's own `signal` fires.
+ */
+export async function backendFetch(path: string, init: BackendRequestInit = {}): Promise<Response> {
+    const { body, timeoutMs = DEFAULT_TIMEOUT_MS, signal, headers, identity, ...rest } = init;
+
+    // Plain objects are JSON; FormData, Blobs and streams pass through untouched
+    const isJson = Object.prototype.toString.call(body) === "[object Object]";
+
+    // Outside the try, so a misconfigured identity secret isn't mistaken for the backend being down
+    const requestHeaders = {
+        ...(isJson ? { "Content-Type": "application/json" } : {}),
+        ...(headers as Record<string, string>),
+        ...(await identityHeaders(identity)),
+    };
+    const timeoutSignal = AbortSignal.timeout(timeoutMs);
+
+    try {
+        return await fetch(`${getBackendUrl()}${path}`, {
+            ...rest,
+            headers: requestHeaders,
+            body: isJson ? JSON.stringify(body) : (body as BodyInit | undefined),
+            signal: signal ? AbortSignal.any([signal, timeoutSignal]) : timeoutSignal,
+        });
+    } catch (error) {
+        if (timeoutSignal.aborted) {
+            throw new BackendError("Backend request timed out", 504);
+        }
+        if (signal?.aborted) throw error;
+        // fetch only rejects when the request couldn't be made: refused, reset, DNS and the like
+        throw new BackendError("Backend is unreachable", 503, String(error));
+    }
+}
+
+/**
+ * Calls the backend and parses its JSON response, throwing BackendError for
+ * non-2xx statuses with the backend's own error message when it sends one.
+ */
+export async function backendJson<T>(path: string, init: BackendRequestInit = {}): Promise<T> {
+    const response = await backendFetch(path, init);
+    const data = await response.json().catch(() => null);
+
+    if (!response.ok) {
+        throw new BackendError(
+            data?.error || data?.message || "Backend API call failed",
+            response.status,
+            data
+        );
+    }
+
+    return data as T;
+}
+
+// True when the backend couldn't be reached, timed out or failed, or the request was aborted.
+// Anything else, such as a bug in the caller, is not the backend being down.
+export function isBackendUnavailable(error: unknown): boolean {
+    if (error instanceof BackendError) return error.status >= 500;
+    return error instanceof Error && error.name === "AbortError";
+}
+
+/**
+ * Maps an error from the backend client onto the response a route handler returns.
+ * Client errors keep their status, backend failures become 502 and timeouts 504.
+ */
+export function backendErrorResponse(error: unknown, message: string): NextResponse {
+    if (error instanceof BackendError) {
+        const status = error.status >= 500 && error.status !== 504 ? 502 : error.status;
+        console.error(`${message}:`, error.status, error.message);
+        return NextResponse.json(
+            { error: error.message || message, details: error.details },
+            { status }
+        );
+    }
+
+    console.error(`${message}:`, error);
+    return NextResponse.json(
+        { error: message, details: error instanceof Error ? error.message : String(error) },
+        { status: 500 }
+    );
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { backendJson } from "@/lib/backend";
+import { prisma } from "@/lib/prisma";
+import { getSessionUser, SessionUser } from "@/lib/session";
+import { UserResponse } from "@/lib/apiTypes";
+
+// The backend keeps its own user ids. Registering a user saves theirs on the user row, so
+// routes addressed by our user id can map it to the backend's before calling it.
+
+/**
+ * Creates or updates the signed-in user on the backend from their identity token and
+ * returns the backend's id for them.
+ */
+export async function registerBackendUser(): Promise<number> {
+    const user = await getSessionUser();
+    if (!user) throw new Error("Only signed-in users can be registered with the backend");
+
+    const data = await backendJson<UserResponse>("/api/db/auth/user", { method: "POST" });
+    if (!data.success || !data.user) {
+        throw new Error(data.message || "Backend didn't return the registered user");
+    }
+
+    await prisma.user.update({ where: { id: user.id }, data: { backendId: data.user.id } });
+    return data.user.id;
+}
+
+/**
+ * The backend id of the user a route is addressed to, or null if they haven't been
+ * registered there. Users looking up themselves are registered first, so a new account gets
+ * empty data rather than an error.
+ */
+export async function resolveBackendUserId(
+    viewer: SessionUser,
+    userId: string
+): Promise<number | null> {
+    if (!Number.isInteger(Number(userId))) return null;
+
+    const user = await prisma.user.findUnique({
+        where: { id: Number(userId) },
+        select: { backendId: true },
+    });
+    if (!user) return null;
+    if (user.backendId !== null) return user.backendId;
+
+    return String(viewer.id) === userId ? registerBackendUser() : null;
+}
+
+export function unknownUserResponse(): NextResponse {
+    return NextResponse.json({ error: "User not found" }, { status: 404 });
+}
@@ -0,0 +1,154 @@
+import {
+    CodeLanguage,
+    CodeRunResult,
+    CodeRunStatus,
+    CodeTest,
+    CodeTestResult,
+    CodingChallenge,
+    previewValue,
+} from "@/lib/codingChallenge";
+
+// Runs an answer to a coding question against the challenge's tests in a sandboxed Web
+// Worker (src/workers/codeRunner.worker.ts). Browser only.
+
+// Only the tests' arguments go to the worker; expected values stay on the page
+export interface RunRequest {
+    runId: string;
+    code: string;
+    language: CodeLanguage;
+    entryPoint: string;
+    args: unknown[][];
+}
+
+// Sent by the worker, tagged with the run they belong to: one "result" per test as it
+// finishes with what the answer returned, then how the run ended
+export type RunnerMessage =
+    | { type: "result"; runId: string; actual: unknown; error: string | null; durationMs: number }
+    | { type: "compile-error"; runId: string; error: string; logs: string[] }
+    | { type: "memory-limit"; runId: string; logs: string[] }
+    | { type: "done"; runId: string; logs: string[] };
+
+// For the whole run, compiling included; the worker is terminated when it runs out
+export const RUN_TIME_LIMIT_MS = 5_000;
+
+const STOPPED_EARLY: Record<Exclude<CodeRunStatus, "completed" | "compile-error">, string> = {
+    timeout: `Time limit exceeded (${RUN_TIME_LIMIT_MS / 1000}s)`,
+    "memory-limit": "Memory limit exceeded",
+    crashed: "The code crashed the runner, most likely by running out of memory",
+};
+
+// Same JSON value: test expectations are plain data, so key order and prototypes don't matter
+function deepEqual(a: unknown, b: unknown): boolean {
+    if (Object.is(a, b)) return true;
+    if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false;
+    if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+    const left = a as Record<string, unknown>;
+    const right = b as Record<string, unknown>;
+    const keys = Object.keys(left);
+    return (
+        keys.length === Object.keys(right).length &&
+        keys.every((key) => Object.hasOwn(right, key) && deepEqual(left[key], right[key]))
+    );
+}
+
+function checkResult(
+    test: CodeTest,
+    message: Extract<RunnerMessage, { type: "result" }>
+): CodeTestResult {
+    return {
+        passed: message.error === null && deepEqual(message.actual, test.expected),
+        durationMs: message.durationMs,
+        actual: message.error === null ? previewValue(message.actual) : null,
+        error: message.error,
+    };
+}
+
+function toRunResult(
+    tests: CodeTest[],
+    completed: CodeTestResult[],
+    status: CodeRunStatus,
+    error: string | null,
+    logs: string[]
+): CodeRunResult {
+    const results = tests.map(
+        (_, index) =>
+            completed[index] ?? {
+                passed: false,
+                durationMs: 0,
+                actual: null,
+                error: status === "compile-error" ? "Not run" : error,
+            }
+    );
+
+    return {
+        status,
+        results,
+        passed: results.filter((r) => r.passed).length,
+        total: tests.length,
+        runtimeMs: Math.round(completed.reduce((total, r) => total + r.durationMs, 0)),
+        error,
+        logs,
+    };
+}
+
+/**
+ * Runs `code` against every test in the challenge. Resolves with the outcome however the run
+ * ends, including compile errors, timeouts and crashes; never rejects.
+ */
+export function runCode(challenge: CodingChallenge, code: string): Promise<CodeRunResult> {
+    const { tests } = challenge;
+    const completed: CodeTestResult[] = [];
+    // Messages without it didn't come from the worker's harness
+    const runId = crypto.randomUUID();
+
+    return new Promise((resolve) => {
+        const worker = new Worker(new URL("../workers/codeRunner.worker.ts", import.meta.url));
+
+        const finish = (status: CodeRunStatus, error: string | null, logs: string[] = []) => {
+            clearTimeout(timeout);
+            worker.terminate();
+            resolve(toRunResult(tests, completed, status, error, logs));
+        };
+
+        const timeout = setTimeout(
+            () => finish("timeout", STOPPED_EARLY.timeout),
+            RUN_TIME_LIMIT_MS
+        );
+
+        worker.addEventListener("message", (event: MessageEvent<RunnerMessage>) => {
+            const message = event.data;
+            if (message?.runId !== runId) return;
+
+            switch (message.type) {
+                case "result":
+                    if (completed.length < tests.length) {
+                        completed.push(checkResult(tests[completed.length], message));
+                    }
+                    break;
+                case "compile-error":
+                    finish("compile-error", message.error, message.logs);
+                    break;
+                case "memory-limit":
+                    finish("memory-limit", STOPPED_EARLY["memory-limit"], message.logs);
+                    break;
+                case "done":
+                    finish("completed", null, message.logs);
+                    break;
+            }
+        });
+        worker.addEventListener("error", (event) => {
+            event.preventDefault();
+            finish("crashed", STOPPED_EARLY.crashed);
+        });
+
+        const request: RunRequest = {
+            runId,
+            code,
+            language: challenge.language,
+            entryPoint: challenge.entryPoint,
+            args: tests.map((test) => test.args),
+        };
+        worker.postMessage(request);
+    });
+}
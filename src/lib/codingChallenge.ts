@@ -0,0 +1,121 @@
+// Coding questions: a prompt answered with code, plus starter code and hidden test cases the
+// answer is run against in the browser (see codeRunner.ts). The tests never show in the UI;
+// the user sees how many passed, and the feedback request gets the details.
+
+export type CodeLanguage = "javascript" | "typescript";
+
+export const CODE_LANGUAGES: CodeLanguage[] = ["javascript", "typescript"];
+
+export interface CodeTest {
+    args: unknown[]; // passed to the entry point, JSON values only
+    expected: unknown;
+}
+
+export interface CodingChallenge {
+    language: CodeLanguage;
+    entryPoint: string; // the function the tests call
+    starterCode: string;
+    tests: CodeTest[];
+}
+
+export interface CodeTestResult {
+    passed: boolean;
+    durationMs: number;
+    actual: string | null; // a preview of what came back, for the feedback request only
+    error: string | null;
+}
+
+// "completed" even when tests fail; the other statuses mean the run stopped early
+export type CodeRunStatus = "completed" | "compile-error" | "timeout" | "memory-limit" | "crashed";
+
+export interface CodeRunResult {
+    status: CodeRunStatus;
+    results: CodeTestResult[]; // one per test, in order; tests the run didn't reach failed
+    passed: number;
+    total: number;
+    runtimeMs: number;
+    error: string | null; // why the run stopped early
+    logs: string[]; // console output, capped
+}
+
+// What the feedback request gets alongside the code
+export interface CodeRunSummary {
+    language: CodeLanguage;
+    status: CodeRunStatus;
+    passed: number;
+    total: number;
+    runtimeMs: number;
+    error: string | null;
+    failures: { args: unknown[]; expected: unknown; actual: string | null; error: string | null }[];
+}
+
+const MAX_TESTS = 50;
+const ENTRY_POINT = /^[A-Za-z_$][\w$]*$/;
+
+// Validates a challenge from the backend; coding questions without a usable one can still be
+// answered, just not run
+export function toCodingChallenge(value: unknown): CodingChallenge | null {
+    if (!value || typeof value !== "object") return null;
+
+    const challenge = value as Record<string, unknown>;
+    if (
+        !CODE_LANGUAGES.includes(challenge.language as CodeLanguage) ||
+        typeof challenge.entryPoint !== "string" ||
+        !ENTRY_POINT.test(challenge.entryPoint) ||
+        typeof challenge.starterCode !== "string" ||
+        !Array.isArray(challenge.tests)
+    ) {
+        return null;
+    }
+
+    const tests = challenge.tests
+        .filter(
+            (test): test is CodeTest =>
+                !!test && Array.isArray(test.args) && test.expected !== undefined
+        )
+        .slice(0, MAX_TESTS)
+        .map(({ args, expected }) => ({ args, expected }));
+
+    return {
+        language: challenge.language as CodeLanguage,
+        entryPoint: challenge.entryPoint,
+        starterCode: challenge.starterCode,
+        tests,
+    };
+}
+
+const MAX_PREVIEW_LENGTH = 200;
+
+// A value as short text, for console output and what an answer returned
+export function previewValue(value: unknown): string {
+    let text: string;
+    try {
+        text = value === undefined ? "undefined" : (JSON.stringify(value) ?? String(value));
+    } catch {
+        text = String(value);
+    }
+    return text.length > MAX_PREVIEW_LENGTH ? `${text.slice(0, MAX_PREVIEW_LENGTH - 1)}…` : text;
+}
+
+export function summarizeCodeRun(challenge: CodingChallenge, run: CodeRunResult): CodeRunSummary {
+    return {
+        language: challenge.language,
+        status: run.status,
+        passed: run.passed,
+        total: run.total,
+        runtimeMs: run.runtimeMs,
+        error: run.error,
+        failures: run.results.flatMap((result, index) =>
+            result.passed
+                ? []
+                : [
+                      {
+                          args: challenge.tests[index]?.args ?? [],
+                          expected: challenge.tests[index]?.expected ?? null,
+                          actual: result.actual,
+                          error: result.error,
+                      },
+                  ]
+        ),
+    };
+}
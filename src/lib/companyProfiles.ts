@@ -0,0 +1,138 @@
+import catalog from "@/data/companyProfiles.json";
+import { Question } from "@/lib/interviewSession";
+import { isEngineeringRole } from "@/lib/questionBank";
+import { MAX_QUESTIONS, QuestionMix } from "@/lib/questionMix";
+
+// How well-known companies run their interview loops, from src/data/companyProfiles.json.
+// A matched profile sets the question mix, goes to the backend with the generation request
+// and orders the mock interview by stage. Bump the file's version whenever a profile changes.
+
+export type StageFormat =
+    "values" | "behavioral" | "coding" | "system-design" | "case" | "product-sense" | "situational";
+
+export interface InterviewStage {
+    id: string;
+    name: string;
+    format: StageFormat;
+    type: Question["type"]; // the kind of question that stands in for this stage, see stagesFor
+    count: number;
+    timeLimitSeconds: number; // per question
+    seniority?: string[]; // every level when omitted
+    focus: string;
+}
+
+export interface CompanyProfile {
+    id: string;
+    name: string;
+    aliases: string[];
+    values: string[]; // or the competencies the company scores against
+    questionStyles: string[];
+    stages: InterviewStage[];
+}
+
+export const COMPANY_PROFILES_VERSION: number = catalog.version;
+
+export const COMPANY_PROFILES = catalog.companies as CompanyProfile[];
+
+const normalize = (name: string) => name.trim().toLowerCase();
+
+export function findCompanyProfile(company: string): CompanyProfile | null {
+    const name = normalize(company);
+    if (!name) return null;
+
+    return (
+        COMPANY_PROFILES.find(
+            (profile) =>
+                normalize(profile.name) === name ||
+                profile.aliases.some((alias) => normalize(alias) === name)
+        ) ?? null
+    );
+}
+
+// Rounds asked as their own question type for engineering roles
+const ENGINEERING_STAGE_TYPES: Partial<Record<StageFormat, Question["type"]>> = {
+    coding: "coding",
+    "system-design": "system-design",
+};
+
+// The stages for a level. Coding and system design rounds use their own question types for
+// engineering roles and stay technical questions for everyone else.
+export function stagesFor(
+    profile: CompanyProfile,
+    seniority: string,
+    jobRole: string
+): InterviewStage[] {
+    const engineering = isEngineeringRole(jobRole);
+    return profile.stages
+        .filter((stage) => !stage.seniority || stage.seniority.includes(seniority))
+        .map((stage) => {
+            const type = engineering ? ENGINEERING_STAGE_TYPES[stage.format] : undefined;
+            return type ? { ...stage, type } : stage;
+        });
+}
+
+// One question per stage slot, trimmed from the end if a loop would exceed MAX_QUESTIONS
+export function profileQuestionMix(
+    profile: CompanyProfile,
+    seniority: string,
+    jobRole: string
+): QuestionMix {
+    const mix: QuestionMix = {
+        behavioral: 0,
+        technical: 0,
+        situational: 0,
+        coding: 0,
+        "system-design": 0,
+    };
+    let total = 0;
+    for (const stage of stagesFor(profile, seniority, jobRole)) {
+        const count = Math.min(stage.count, MAX_QUESTIONS - total);
+        mix[stage.type] += count;
+        total += count;
+    }
+    return mix;
+}
+
+/**
+ * Orders questions the way the company's loop runs, tagging each with its stage and time
+ * limit. Questions beyond a stage's count join the last stage of their type; any type the
+ * loop has no stage for goes at the end untagged.
+ */
+export function orderByStages(questions: Question[], stages: InterviewStage[]): Question[] {
+    const remaining = [...questions];
+    const slots = stages.map((stage) => {
+        const picked: Question[] = [];
+        while (picked.length < stage.count) {
+            const index = remaining.findIndex((q) => q.type === stage.type);
+            if (index === -1) break;
+            picked.push(...remaining.splice(index, 1));
+        }
+        return { stage, picked };
+    });
+
+    for (const question of [...remaining]) {
+        const slot = slots.findLast(({ stage }) => stage.type === question.type);
+        if (slot) {
+            slot.picked.push(question);
+            remaining.splice(remaining.indexOf(question), 1);
+        }
+    }
+
+    return [
+        ...slots.flatMap(({ stage, picked }) =>
+            picked.map((q) => ({ ...q, stage: stage.name, timeLimit: stage.timeLimitSeconds }))
+        ),
+        ...remaining,
+    ];
+}
+
+// For the offline bank: questions that ask for a story about one of the company's values
+export function buildValuesQuestions(profile: CompanyProfile, count: number): Question[] {
+    return profile.values.slice(0, count).map((value, index) => ({
+        id: `values-${profile.id}-${index}`,
+        question: `${profile.name} looks for "${value}". Tell me about a time you demonstrated it, what you did and what came of it.`,
+        type: "behavioral",
+        difficulty: "medium",
+        category: value,
+    }));
+}
@@ -0,0 +1,179 @@
+// The diagram half of a system design answer: boxes for components, arrows between them,
+// free-standing labels and sticky notes, stored as a JSON graph with the answer. The
+// feedback backend gets it as text (see describeDiagram) so it can critique the design.
+
+export type DiagramNodeKind = "box" | "note" | "label";
+
+export interface DiagramNode {
+    id: string;
+    kind: DiagramNodeKind;
+    text: string;
+    x: number; // top-left corner, in canvas units
+    y: number;
+}
+
+export interface DiagramEdge {
+    id: string;
+    from: string; // node ids
+    to: string;
+    label: string;
+}
+
+export interface DesignDiagram {
+    nodes: DiagramNode[];
+    edges: DiagramEdge[];
+}
+
+export const DIAGRAM_WIDTH = 960;
+export const DIAGRAM_HEIGHT = 540;
+
+export const NODE_SIZE: Record<DiagramNodeKind, { width: number; height: number }> = {
+    box: { width: 150, height: 56 },
+    note: { width: 180, height: 80 },
+    label: { width: 150, height: 28 },
+};
+
+const NODE_KINDS: DiagramNodeKind[] = ["box", "note", "label"];
+
+const MAX_NODES = 100;
+const MAX_EDGES = 200;
+const MAX_TEXT_LENGTH = 200;
+
+export const emptyDiagram = (): DesignDiagram => ({ nodes: [], edges: [] });
+
+export function isDiagramEmpty(diagram: DesignDiagram | null): boolean {
+    return !diagram || diagram.nodes.length === 0;
+}
+
+const clampTo = (value: number, max: number) => Math.min(Math.max(0, value), max);
+
+// Keeps a node fully on the canvas
+export function placeNode(node: DiagramNode, x: number, y: number): DiagramNode {
+    const { width, height } = NODE_SIZE[node.kind];
+    return {
+        ...node,
+        x: Math.round(clampTo(x, DIAGRAM_WIDTH - width)),
+        y: Math.round(clampTo(y, DIAGRAM_HEIGHT - height)),
+    };
+}
+
+// Removes a node along with the arrows attached to it
+export function removeNode(diagram: DesignDiagram, id: string): DesignDiagram {
+    return {
+        nodes: diagram.nodes.filter((node) => node.id !== id),
+        edges: diagram.edges.filter((edge) => edge.from !== id && edge.to !== id),
+    };
+}
+
+const toText = (value: unknown) =>
+    typeof value === "string" ? value.slice(0, MAX_TEXT_LENGTH) : "";
+
+/**
+ * Validates a diagram from the client or a stored answer, which may arrive as a JSON string.
+ * Malformed nodes are dropped, along with arrows that no longer connect two nodes.
+ */
+export function toDesignDiagram(value: unknown): DesignDiagram | null {
+    if (typeof value === "string") {
+        try {
+            return toDesignDiagram(JSON.parse(value));
+        } catch {
+            return null;
+        }
+    }
+    if (!value || typeof value !== "object") return null;
+
+    const { nodes, edges } = value as Record<string, unknown>;
+    if (!Array.isArray(nodes) || !Array.isArray(edges)) return null;
+
+    const validNodes = nodes
+        .filter(
+            (node): node is DiagramNode =>
+                !!node &&
+                typeof node.id === "string" &&
+                NODE_KINDS.includes(node.kind) &&
+                Number.isFinite(node.x) &&
+                Number.isFinite(node.y)
+        )
+        .slice(0, MAX_NODES)
+        .map((node) =>
+            placeNode(
+                { id: node.id, kind: node.kind, text: toText(node.text), x: 0, y: 0 },
+                node.x,
+                node.y
+            )
+        );
+
+    const ids = new Set(validNodes.map((node) => node.id));
+    const validEdges = edges
+        .filter(
+            (edge): edge is DiagramEdge =>
+                !!edge &&
+                typeof edge.id === "string" &&
+                ids.has(edge.from) &&
+                ids.has(edge.to) &&
+                edge.from !== edge.to
+        )
+        .slice(0, MAX_EDGES)
+        .map((edge) => ({ id: edge.id, from: edge.from, to: edge.to, label: toText(edge.label) }));
+
+    return { nodes: validNodes, edges: validEdges };
+}
+
+/**
+ * The diagram as plain text for the feedback request: components, the connections between
+ * them, then labels and notes. Unnamed boxes are numbered so arrows to them still read.
+ */
+export function describeDiagram(diagram: DesignDiagram): string {
+    const names = new Map(
+        diagram.nodes
+            .filter((node) => node.kind === "box")
+            .map((node, index) => [node.id, node.text.trim() || `Unnamed component ${index + 1}`])
+    );
+    const nameOf = (id: string) =>
+        names.get(id) ?? diagram.nodes.find((node) => node.id === id)?.text.trim() ?? "?";
+    const textsOf = (kind: DiagramNodeKind) =>
+        diagram.nodes
+            .filter((node) => node.kind === kind && node.text.trim())
+            .map((node) => `- ${node.text.trim()}`);
+
+    const connected = new Set(diagram.edges.flatMap((edge) => [edge.from, edge.to]));
+    const sections: [string, string[]][] = [
+        [
+            "Components",
+            [...names].map(
+                ([id, name]) => `- ${name}${connected.has(id) ? "" : " (not connected)"}`
+            ),
+        ],
+        [
+            "Connections",
+            diagram.edges.map(
+                (edge) =>
+                    `- ${nameOf(edge.from)} -> ${nameOf(edge.to)}${edge.label.trim() ? `: ${edge.label.trim()}` : ""}`
+            ),
+        ],
+        ["Labels", textsOf("label")],
+        ["Notes", textsOf("note")],
+    ];
+
+    return sections
+        .filter(([, lines]) => lines.length > 0)
+        .map(([title, lines]) => `${title}:\n${lines.join("\n")}`)
+        .join("\n\n");
+}
+
+// For the feedback request: the graph is stored with the answer and the text gets critiqued
+export function diagramFeedbackFields(
+    value: unknown
+): { diagram: DesignDiagram; diagramDescription: string } | null {
+    const diagram = toDesignDiagram(value);
+    return diagram && !isDiagramEmpty(diagram)
+        ? { diagram, diagramDescription: describeDiagram(diagram) }
+        : null;
+}
+
+// A system design answer as one piece of text, for requests that only take the answer
+export function answerWithDiagram(answer: string, diagram: DesignDiagram | null): string {
+    if (!diagram || isDiagramEmpty(diagram)) return answer;
+    const description = `Diagram:\n${describeDiagram(diagram)}`;
+    return answer.trim() ? `${answer}\n\n${description}` : description;
+}
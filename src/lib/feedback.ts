@@ -0,0 +1,79 @@
+export interface InterviewFeedback {
+    summary: string;
+    relevanceScore: number;
+    clarityScore: number;
+    depthScore: number;
+    overallScore: number;
+    strengths: string[];
+    improvements: string[];
+    resumeNotes?: string[]; // where the answer agrees or clashes with the user's resume
+}
+
+export class FeedbackValidationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "FeedbackValidationError";
+    }
+}
+
+const SCORE_FIELDS = ["relevanceScore", "clarityScore", "depthScore", "overallScore"] as const;
+
+function readScore(payload: Record<string, unknown>, field: string): number {
+    const value = payload[field];
+    const score = typeof value === "string" ? Number(value) : value;
+
+    if (typeof score !== "number" || Number.isNaN(score)) {
+        throw new FeedbackValidationError(`"${field}" must be a number`);
+    }
+    if (score < 0 || score > 10) {
+        throw new FeedbackValidationError(`"${field}" must be between 0 and 10, got ${score}`);
+    }
+    return score;
+}
+
+function readStringList(payload: Record<string, unknown>, field: string): string[] {
+    const value = payload[field];
+
+    if (value === undefined || value === null) return [];
+    if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) {
+        throw new FeedbackValidationError(`"${field}" must be an array of strings`);
+    }
+    return value;
+}
+
+/**
+ * Validates a feedback payload from the backend and narrows it to InterviewFeedback.
+ * Accepts the fields at the top level or nested under a `feedback` object.
+ */
+export function parseFeedback(payload: unknown): InterviewFeedback {
+    if (!payload || typeof payload !== "object") {
+        throw new FeedbackValidationError("Feedback payload must be an object");
+    }
+
+    let body = payload as Record<string, unknown>;
+    if (body.feedback && typeof body.feedback === "object") {
+        body = body.feedback as Record<string, unknown>;
+    }
+
+    const summary = body.summary ?? body.feedback;
+    if (typeof summary !== "string" || !summary.trim()) {
+        throw new FeedbackValidationError('"summary" must be a non-empty string');
+    }
+
+    const [relevanceScore, clarityScore, depthScore, overallScore] = SCORE_FIELDS.map((field) =>
+        readScore(body, field)
+    );
+
+    const resumeNotes = readStringList(body, "resumeNotes");
+
+    return {
+        summary: summary.trim(),
+        relevanceScore,
+        clarityScore,
+        depthScore,
+        overallScore,
+        strengths: readStringList(body, "strengths"),
+        improvements: readStringList(body, "improvements"),
+        ...(resumeNotes.length > 0 ? { resumeNotes } : {}),
+    };
+}
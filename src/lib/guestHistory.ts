@@ -0,0 +1,110 @@
+import { InterviewState } from "@/lib/interviewEngine";
+import { InterviewSession, Question, QuestionResponse } from "@/lib/interviewSession";
+import { mixQuestionType } from "@/lib/questionMix";
+
+// Interviews taken while signed out, kept in localStorage under a random guest id until
+// the visitor signs in and GuestHistorySync imports them into their account. One still in
+// progress is imported with the answers given so far.
+
+export interface GuestInterview {
+    id: string;
+    jobRole: string;
+    company: string;
+    difficulty: InterviewSession["difficulty"];
+    seniority: string;
+    questionType: Question["type"] | "all";
+    questions: Question[];
+    responses: QuestionResponse[];
+    completedAt: string;
+}
+
+interface GuestHistory {
+    version: number;
+    guestId: string;
+    interviews: GuestInterview[];
+}
+
+const STORAGE_KEY = "prepforge:guest-history";
+const HISTORY_VERSION = 1;
+
+// Oldest interviews are dropped past this so the history can't fill up localStorage
+const MAX_GUEST_INTERVIEWS = 50;
+
+function readHistory(): GuestHistory | null {
+    if (typeof window === "undefined") return null;
+
+    try {
+        const raw = window.localStorage.getItem(STORAGE_KEY);
+        if (!raw) return null;
+
+        const history = JSON.parse(raw) as GuestHistory;
+        if (history.version !== HISTORY_VERSION || !Array.isArray(history.interviews)) {
+            window.localStorage.removeItem(STORAGE_KEY);
+            return null;
+        }
+        return history;
+    } catch (error) {
+        console.error("Error reading guest history:", error);
+        return null;
+    }
+}
+
+function writeHistory(history: GuestHistory) {
+    try {
+        if (history.interviews.length === 0) {
+            window.localStorage.removeItem(STORAGE_KEY);
+        } else {
+            window.localStorage.setItem(STORAGE_KEY, JSON.stringify(history));
+        }
+    } catch (error) {
+        console.error("Error saving guest history:", error);
+    }
+}
+
+export function loadGuestHistory(): { guestId: string; interviews: GuestInterview[] } | null {
+    const history = readHistory();
+    if (!history || history.interviews.length === 0) return null;
+    return { guestId: history.guestId, interviews: history.interviews };
+}
+
+/**
+ * Records an interview for a signed-out visitor once it has an answer. Saving the same
+ * interview again replaces the earlier copy, so it's updated with each answer and re-renders
+ * of the summary never create duplicates.
+ */
+export function saveGuestInterview(state: InterviewState) {
+    if (typeof window === "undefined" || !state.interviewId || state.responses.length === 0) {
+        return;
+    }
+
+    const history = readHistory() ?? {
+        version: HISTORY_VERSION,
+        guestId: crypto.randomUUID(),
+        interviews: [],
+    };
+    const interview: GuestInterview = {
+        id: state.interviewId,
+        jobRole: state.jobRole,
+        company: state.company,
+        difficulty: state.difficulty,
+        seniority: state.seniority,
+        questionType: mixQuestionType(state.questionMix),
+        questions: state.questions,
+        responses: state.responses,
+        completedAt: new Date().toISOString(), // last saved, which is the finish time once complete
+    };
+
+    const interviews = [...history.interviews.filter((i) => i.id !== interview.id), interview];
+    writeHistory({ ...history, interviews: interviews.slice(-MAX_GUEST_INTERVIEWS) });
+}
+
+// Drops interviews the backend has accepted; anything saved meanwhile stays for the next sync
+export function removeGuestInterviews(ids: string[]) {
+    const history = readHistory();
+    if (!history) return;
+
+    writeHistory({
+        ...history,
+        interviews: history.interviews.filter((i) => !ids.includes(i.id)),
+    });
+}
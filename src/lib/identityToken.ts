@@ -0,0 +1,123 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { isRole, Role } from "@/lib/roles";
+
+// Short-lived HS256 JWTs that carry the signed-in user from the Next.js server to the backend.
+// The backend verifies them with the shared secret instead of trusting headers or body fields.
+
+export const IDENTITY_TOKEN_ISSUER = "prepforge-web";
+export const IDENTITY_TOKEN_AUDIENCE = "prepforge-backend";
+const DEFAULT_TTL_SECONDS = 60;
+
+export interface Identity {
+    email: string;
+    name: string | null;
+    image: string | null;
+    role: Role;
+}
+
+export interface IdentityClaims {
+    sub: string;
+    name: string | null;
+    picture: string | null;
+    role: Role;
+    iss: string;
+    aud: string;
+    iat: number;
+    exp: number;
+}
+
+export class IdentityTokenError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "IdentityTokenError";
+    }
+}
+
+// The backend gets this secret too, so it must not be the one that signs sessions
+export function getIdentitySecret(): string {
+    const secret = process.env.BACKEND_IDENTITY_SECRET;
+    if (!secret) {
+        throw new IdentityTokenError("BACKEND_IDENTITY_SECRET is not configured");
+    }
+    if (secret === process.env.NEXTAUTH_SECRET) {
+        throw new IdentityTokenError("BACKEND_IDENTITY_SECRET must differ from NEXTAUTH_SECRET");
+    }
+    return secret;
+}
+
+function encodeSegment(value: object): string {
+    return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+function sign(data: string, secret: string): Buffer {
+    return createHmac("sha256", secret).update(data).digest();
+}
+
+export function signIdentityToken(
+    identity: Identity,
+    { secret = getIdentitySecret(), ttlSeconds = DEFAULT_TTL_SECONDS, now = Date.now() } = {}
+): string {
+    const iat = Math.floor(now / 1000);
+    const claims: IdentityClaims = {
+        sub: identity.email,
+        name: identity.name,
+        picture: identity.image,
+        role: identity.role,
+        iss: IDENTITY_TOKEN_ISSUER,
+        aud: IDENTITY_TOKEN_AUDIENCE,
+        iat,
+        exp: iat + ttlSeconds,
+    };
+
+    const data = `${encodeSegment({ alg: "HS256", typ: "JWT" })}.${encodeSegment(claims)}`;
+    return `${data}.${sign(data, secret).toString("base64url")}`;
+}
+
+/**
+ * Checks the signature, audience and expiry of a token and returns its claims.
+ * This is the same check the backend performs, so tests and local stubs can use it directly.
+ */
+export function verifyIdentityToken(
+    token: string,
+    { secret = getIdentitySecret(), now = Date.now() } = {}
+): IdentityClaims {
+    const [header, payload, signature] = token.split(".");
+    if (!header || !payload || !signature) {
+        throw new IdentityTokenError("Malformed identity token");
+    }
+
+    const expected = sign(`${header}.${payload}`, secret);
+    const actual = Buffer.from(signature, "base64url");
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+        throw new IdentityTokenError("Invalid identity token signature");
+    }
+
+    let claims: IdentityClaims;
+    try {
+        claims = JSON.parse(Buffer.from(payload, "base64url").toString());
+    } catch {
+        throw new IdentityTokenError("Malformed identity token");
+    }
+
+    if (claims.iss !== IDENTITY_TOKEN_ISSUER || claims.aud !== IDENTITY_TOKEN_AUDIENCE) {
+        throw new IdentityTokenError("Identity token was not issued for the backend");
+    }
+    if (typeof claims.sub !== "string" || !claims.sub) {
+        throw new IdentityTokenError("Identity token has no subject");
+    }
+    if (!isRole(claims.role)) {
+        throw new IdentityTokenError("Identity token has an unknown role");
+    }
+    if (typeof claims.exp !== "number" || claims.exp <= Math.floor(now / 1000)) {
+        throw new IdentityTokenError("Identity token has expired");
+    }
+
+    return claims;
+}
+
+// Reads the bearer token the backend client attaches to every request
+export function readIdentityToken(headers: Headers): string | null {
+    const authorization = headers.get("authorization");
+    if (!authorization?.startsWith("Bearer ")) return null;
+    return authorization.slice("Bearer ".length).trim() || null;
+}
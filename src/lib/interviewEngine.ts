@@ -0,0 +1,371 @@
+import { CodeRunResult } from "@/lib/codingChallenge";
+import { DesignDiagram } from "@/lib/designDiagram";
+import { InterviewFeedback } from "@/lib/feedback";
+import { getOvertime, getTimeBudget } from "@/lib/timeBudget";
+import {
+    DEFAULT_FOLLOW_UP_DEPTH,
+    InterviewSession,
+    Question,
+    QuestionResponse,
+    QuestionSource,
+} from "@/lib/interviewSession";
+import { DEFAULT_QUESTION_MIX, MAX_QUESTIONS } from "@/lib/questionMix";
+import { changeQuestion, moveQuestion } from "@/lib/questionList";
+
+// The mock interview as a pure state machine: input → questions → mock → complete.
+// Components run the network calls and dispatch their results as events; every transition
+// here is synchronous so the flow can be exercised without React.
+
+export type InterviewState = Omit<InterviewSession, "version" | "updatedAt">;
+
+export type InterviewConfig = Pick<
+    InterviewState,
+    | "jobRole"
+    | "company"
+    | "difficulty"
+    | "seniority"
+    | "questionMix"
+    | "jobDescription"
+    | "useResume"
+    | "revisitWeakQuestions"
+    | "followUpDepth"
+    | "timedMode"
+    | "timeUpBehavior"
+    | "offlineMode"
+>;
+
+export type InterviewEvent =
+    | { type: "CONFIGURE"; config: Partial<InterviewConfig> }
+    | {
+          type: "GENERATE";
+          questions: Question[];
+          questionSetId: string | null;
+          source: QuestionSource;
+      }
+    | { type: "MOVE_QUESTION"; from: number; to: number }
+    | { type: "REMOVE_QUESTION"; questionId: string }
+    | { type: "REPLACE_QUESTION"; questionId: string; question: Question }
+    | {
+          type: "UPDATE_QUESTION";
+          questionId: string;
+          changes: Partial<Pick<Question, "type" | "difficulty">>;
+      }
+    | { type: "ADD_QUESTION"; question: Question }
+    | { type: "START"; interviewId: string; questions?: Question[] }
+    | { type: "EDIT_ANSWER"; answer: string }
+    | { type: "APPEND_TRANSCRIPT"; transcript: string }
+    | { type: "ATTACH_RECORDING"; recordingId: string | null }
+    | { type: "EDIT_DIAGRAM"; diagram: DesignDiagram }
+    | { type: "TICK" }
+    | {
+          type: "SUBMIT";
+          answer: string;
+          feedback: InterviewFeedback;
+          autoSubmitted: boolean;
+          codeRun?: CodeRunResult;
+      }
+    | { type: "REVISE" }
+    | { type: "FOLLOW_UP"; question: string }
+    | { type: "EDIT_FOLLOW_UP_ANSWER"; answer: string }
+    | { type: "ANSWER_FOLLOW_UP"; answer: string; feedback: InterviewFeedback }
+    | { type: "NEXT" }
+    | { type: "SKIP" }
+    | { type: "BACK" }
+    | { type: "FINISH" }
+    | { type: "RESUME"; session: InterviewState }
+    | { type: "RESET" };
+
+export const initialInterviewState: InterviewState = {
+    interviewId: null,
+    jobRole: "",
+    company: "",
+    difficulty: "medium",
+    seniority: "mid-level",
+    questionMix: DEFAULT_QUESTION_MIX,
+    jobDescription: "",
+    useResume: false,
+    revisitWeakQuestions: false,
+    questions: [],
+    questionSetId: null,
+    questionSource: "ai",
+    questionsEdited: false,
+    offlineMode: false,
+    currentStep: "input",
+    currentQuestionIndex: 0,
+    currentAnswer: "",
+    timer: 0,
+    currentRecordingId: null,
+    currentDiagram: null,
+    showFeedback: false,
+    followUpAnswer: "",
+    followUpDepth: DEFAULT_FOLLOW_UP_DEPTH,
+    timedMode: false,
+    timeUpBehavior: "auto-submit",
+    responses: [],
+};
+
+export function selectCurrentQuestion(state: InterviewState): Question | undefined {
+    return state.questions[state.currentQuestionIndex];
+}
+
+export function selectCurrentResponse(state: InterviewState): QuestionResponse | undefined {
+    const question = selectCurrentQuestion(state);
+    return state.responses.find((r) => r.questionId === question?.id);
+}
+
+export function selectTimeLimit(state: InterviewState): number | null {
+    const question = selectCurrentQuestion(state);
+    return state.timedMode && question ? getTimeBudget(question) : null;
+}
+
+export function selectOvertime(state: InterviewState): number {
+    return getOvertime(state.timer, selectTimeLimit(state));
+}
+
+// Moving onto a question that already has a response shows its feedback again; a fresh one
+// starts with an empty draft, or the starter code for a coding question, and a zeroed clock.
+function goToQuestion(state: InterviewState, index: number): InterviewState {
+    const question = state.questions[index];
+    const response = state.responses.find((r) => r.questionId === question?.id);
+
+    return {
+        ...state,
+        currentQuestionIndex: index,
+        currentAnswer: response?.answer ?? question?.coding?.starterCode ?? "",
+        timer: response?.timeSpent ?? 0,
+        currentRecordingId: response?.recordingId ?? null,
+        currentDiagram: response?.diagram ?? null,
+        showFeedback: response !== undefined,
+        followUpAnswer: "",
+    };
+}
+
+function advance(state: InterviewState): InterviewState {
+    if (state.currentQuestionIndex < state.questions.length - 1) {
+        return goToQuestion(state, state.currentQuestionIndex + 1);
+    }
+    return { ...state, currentStep: "complete" };
+}
+
+function updateCurrentResponse(
+    state: InterviewState,
+    update: (response: QuestionResponse) => QuestionResponse
+): InterviewState {
+    const current = selectCurrentResponse(state);
+    if (!current) return state;
+
+    return {
+        ...state,
+        responses: state.responses.map((r) => (r === current ? update(r) : r)),
+    };
+}
+
+// Keeps responses in question order even when an earlier question is revised later
+function upsertResponse(state: InterviewState, response: QuestionResponse): QuestionResponse[] {
+    const order = (r: QuestionResponse) => state.questions.findIndex((q) => q.id === r.questionId);
+    return [...state.responses.filter((r) => r.questionId !== response.questionId), response].sort(
+        (a, b) => order(a) - order(b)
+    );
+}
+
+// The list can only be edited between generating it and starting the mock interview
+function editQuestions(
+    state: InterviewState,
+    edit: (questions: Question[]) => Question[]
+): InterviewState {
+    if (state.currentStep !== "questions") return state;
+    return { ...state, questions: edit(state.questions), questionsEdited: true };
+}
+
+/**
+ * Applies an event to the interview. Events that don't make sense in the current step,
+ * such as SUBMIT before the mock has started, leave the state untouched.
+ */
+export function interviewReducer(state: InterviewState, event: InterviewEvent): InterviewState {
+    const inMock = state.currentStep === "mock";
+
+    switch (event.type) {
+        case "CONFIGURE":
+            return { ...state, ...event.config };
+
+        case "GENERATE":
+            return {
+                ...state,
+                questions: event.questions,
+                questionSetId: event.questionSetId,
+                questionSource: event.source,
+                questionsEdited: false,
+                currentStep: "questions",
+            };
+
+        case "MOVE_QUESTION":
+            return editQuestions(state, (questions) =>
+                moveQuestion(questions, event.from, event.to)
+            );
+
+        case "REMOVE_QUESTION":
+            return editQuestions(state, (questions) =>
+                questions.filter((q) => q.id !== event.questionId)
+            );
+
+        case "REPLACE_QUESTION":
+            return editQuestions(state, (questions) =>
+                questions.map((q) => (q.id === event.questionId ? event.question : q))
+            );
+
+        case "UPDATE_QUESTION":
+            return editQuestions(state, (questions) =>
+                questions.map((q) =>
+                    q.id === event.questionId ? changeQuestion(q, event.changes) : q
+                )
+            );
+
+        case "ADD_QUESTION":
+            return editQuestions(state, (questions) =>
+                questions.length < MAX_QUESTIONS ? [...questions, event.question] : questions
+            );
+
+        case "START": {
+            const questions = event.questions ?? state.questions;
+            if (questions.length === 0) return state;
+
+            return goToQuestion(
+                {
+                    ...state,
+                    interviewId: event.interviewId,
+                    questions,
+                    responses: [],
+                    currentStep: "mock",
+                },
+                0
+            );
+        }
+
+        case "EDIT_ANSWER":
+            return { ...state, currentAnswer: event.answer };
+
+        case "APPEND_TRANSCRIPT": {
+            const draft = state.currentAnswer.trim();
+            return {
+                ...state,
+                currentAnswer: draft ? `${draft} ${event.transcript}` : event.transcript,
+            };
+        }
+
+        case "ATTACH_RECORDING":
+            return { ...state, currentRecordingId: event.recordingId };
+
+        case "EDIT_DIAGRAM":
+            return { ...state, currentDiagram: event.diagram };
+
+        case "TICK":
+            if (!inMock || state.showFeedback) return state;
+            return { ...state, timer: state.timer + 1 };
+
+        case "SUBMIT": {
+            const question = selectCurrentQuestion(state);
+            if (!inMock || !question) return state;
+
+            // A revised answer replaces the earlier attempt, including its follow-ups
+            const response: QuestionResponse = {
+                questionId: question.id,
+                question: question.question,
+                type: question.type,
+                difficulty: question.difficulty,
+                answer: event.answer,
+                feedback: event.feedback,
+                followUps: [],
+                timeSpent: state.timer,
+                timeLimit: selectTimeLimit(state),
+                autoSubmitted: event.autoSubmitted,
+                recordingId: state.currentRecordingId,
+                codeRun: event.codeRun ?? null,
+                diagram: state.currentDiagram,
+            };
+
+            return {
+                ...state,
+                responses: upsertResponse(state, response),
+                showFeedback: true,
+                followUpAnswer: "",
+            };
+        }
+
+        case "REVISE":
+            if (!inMock || !state.showFeedback) return state;
+            return { ...state, showFeedback: false, followUpAnswer: "" };
+
+        case "FOLLOW_UP": {
+            if (!inMock) return state;
+            const response = selectCurrentResponse(state);
+            if (!response || response.followUps.length >= state.followUpDepth) return state;
+
+            return {
+                ...updateCurrentResponse(state, (r) => ({
+                    ...r,
+                    followUps: [
+                        ...r.followUps,
+                        { question: event.question, answer: "", feedback: null },
+                    ],
+                })),
+                followUpAnswer: "",
+            };
+        }
+
+        case "EDIT_FOLLOW_UP_ANSWER":
+            return { ...state, followUpAnswer: event.answer };
+
+        case "ANSWER_FOLLOW_UP": {
+            if (!inMock) return state;
+            const followUps = selectCurrentResponse(state)?.followUps ?? [];
+            const openTurn = followUps[followUps.length - 1];
+            if (!openTurn || openTurn.feedback) return state;
+
+            return {
+                ...updateCurrentResponse(state, (r) => ({
+                    ...r,
+                    followUps: r.followUps.map((turn, index) =>
+                        index === r.followUps.length - 1
+                            ? { ...turn, answer: event.answer, feedback: event.feedback }
+                            : turn
+                    ),
+                })),
+                followUpAnswer: "",
+            };
+        }
+
+        case "NEXT":
+            if (!inMock || !state.showFeedback) return state;
+            return advance(state);
+
+        case "SKIP":
+            if (!inMock || state.showFeedback) return state;
+            return advance(state);
+
+        case "BACK":
+            if (!inMock || state.currentQuestionIndex === 0) return state;
+            return goToQuestion(state, state.currentQuestionIndex - 1);
+
+        case "FINISH":
+            if (!inMock) return state;
+            return { ...state, currentStep: "complete" };
+
+        case "RESUME":
+            return { ...event.session };
+
+        case "RESET":
+            // Keep the preferences from the form, drop the role and everything generated
+            return {
+                ...initialInterviewState,
+                difficulty: state.difficulty,
+                seniority: state.seniority,
+                questionMix: state.questionMix,
+                followUpDepth: state.followUpDepth,
+                timedMode: state.timedMode,
+                timeUpBehavior: state.timeUpBehavior,
+                offlineMode: state.offlineMode,
+                useResume: state.useResume,
+                revisitWeakQuestions: state.revisitWeakQuestions,
+            };
+    }
+}
@@ -0,0 +1,140 @@
+import { CodeRunResult, CodingChallenge } from "@/lib/codingChallenge";
+import { DesignDiagram } from "@/lib/designDiagram";
+import { InterviewFeedback } from "@/lib/feedback";
+import { QuestionMix } from "@/lib/questionMix";
+import { TimeUpBehavior } from "@/lib/timeBudget";
+
+export interface Question {
+    id: string;
+    question: string;
+    type: "behavioral" | "technical" | "situational" | "coding" | "system-design";
+    difficulty: "easy" | "medium" | "hard";
+    category: string;
+    covers?: string[]; // job description requirements the question exercises
+    resumeItem?: string; // the role or project from the user's resume it asks about
+    previousScore?: number; // set when a weakly answered question is brought back
+    stage?: string; // the company interview stage it stands in for
+    timeLimit?: number; // seconds, from the company profile; replaces the type's time budget
+    coding?: CodingChallenge; // starter code and hidden tests, for coding questions
+}
+
+// Generated by the backend, drawn from the local question bank when it's unavailable, or
+// made up entirely of weakly answered questions picked for another go
+export type QuestionSource = "ai" | "bank" | "history";
+
+export interface FollowUpTurn {
+    question: string;
+    answer: string;
+    feedback: InterviewFeedback | null;
+}
+
+export interface QuestionResponse {
+    questionId: string;
+    question: string;
+    type: Question["type"];
+    difficulty: Question["difficulty"];
+    answer: string;
+    feedback: InterviewFeedback;
+    followUps: FollowUpTurn[];
+    timeSpent: number; // seconds
+    timeLimit: number | null; // seconds, only in timed mode
+    autoSubmitted: boolean;
+    recordingId: string | null; // voice answer kept in the recording store
+    codeRun: CodeRunResult | null; // the submitted code's test run, for coding questions
+    diagram: DesignDiagram | null; // drawn alongside a system design answer
+}
+
+export type InterviewStep = "input" | "questions" | "mock" | "complete";
+
+export interface InterviewSession {
+    version: number;
+    interviewId: string | null; // set when the mock starts, keeps guest imports idempotent
+    jobRole: string;
+    company: string;
+    difficulty: "easy" | "medium" | "hard";
+    seniority: string;
+    questionMix: QuestionMix;
+    jobDescription: string; // pasted or uploaded, parsed locally for requirements
+    useResume: boolean; // tailor questions and check answers against the stored resume
+    revisitWeakQuestions: boolean; // bring back weakly answered questions instead of avoiding repeats
+    questions: Question[];
+    questionSetId: string | null;
+    questionSource: QuestionSource;
+    questionsEdited: boolean; // changed since generation, so the saved set needs updating
+    offlineMode: boolean; // skip the backend and use the question bank
+    currentStep: InterviewStep;
+    currentQuestionIndex: number;
+    currentAnswer: string;
+    timer: number;
+    currentRecordingId: string | null;
+    currentDiagram: DesignDiagram | null;
+    showFeedback: boolean;
+    followUpAnswer: string;
+    followUpDepth: number;
+    timedMode: boolean;
+    timeUpBehavior: TimeUpBehavior;
+    responses: QuestionResponse[];
+    updatedAt: string;
+}
+
+// How many levels of follow-up a single question can drill into
+export const DEFAULT_FOLLOW_UP_DEPTH = 3;
+export const MAX_FOLLOW_UP_DEPTH = 5;
+
+const STORAGE_KEY = "prepforge:interview-session";
+
+// Bump whenever the stored shape changes so stale sessions are dropped instead of misread
+export const SESSION_VERSION = 16;
+
+export function loadInterviewSession(): InterviewSession | null {
+    if (typeof window === "undefined") return null;
+
+    try {
+        const raw = window.localStorage.getItem(STORAGE_KEY);
+        if (!raw) return null;
+
+        const session = JSON.parse(raw) as InterviewSession;
+        if (session.version !== SESSION_VERSION || !Array.isArray(session.questions)) {
+            window.localStorage.removeItem(STORAGE_KEY);
+            return null;
+        }
+
+        // Only sessions that are still in progress can be resumed
+        if (session.currentStep !== "questions" && session.currentStep !== "mock") {
+            return null;
+        }
+
+        return session;
+    } catch (error) {
+        console.error("Error reading saved interview session:", error);
+        return null;
+    }
+}
+
+export function saveInterviewSession(session: Omit<InterviewSession, "version" | "updatedAt">) {
+    if (typeof window === "undefined") return;
+
+    try {
+        const stored: InterviewSession = {
+            ...session,
+            version: SESSION_VERSION,
+            updatedAt: new Date().toISOString(),
+        };
+        window.localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+    } catch (error) {
+        // Quota or privacy mode errors shouldn't interrupt the interview
+        console.error("Error saving interview session:", error);
+    }
+}
+
+// Answers scoring below this overall score are offered for another attempt
+export const WEAK_OVERALL_SCORE = 6;
+
+export function isWeakResponse(response: QuestionResponse): boolean {
+    return response.feedback.overallScore < WEAK_OVERALL_SCORE;
+}
+
+export function clearInterviewSession() {
+    if (typeof window === "undefined") return;
+    window.localStorage.removeItem(STORAGE_KEY);
+}
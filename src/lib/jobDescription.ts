@@ -0,0 +1,239 @@
+// Pulls the requirements out of a pasted job description without sending it anywhere.
+// Skills and technologies come from fixed vocabularies; responsibilities are the bullet
+// points under headings like "What you'll do".
+
+export type RequirementKind = "skill" | "technology" | "responsibility";
+
+export interface JobRequirement {
+    kind: RequirementKind;
+    text: string;
+}
+
+export interface JobDescriptionContext {
+    skills: string[];
+    technologies: string[];
+    responsibilities: string[];
+}
+
+export const MAX_JOB_DESCRIPTION_LENGTH = 20_000;
+const MAX_RESPONSIBILITIES = 8;
+const MAX_RESPONSIBILITY_LENGTH = 160;
+
+// Canonical name → extra spellings to look for
+const TECHNOLOGIES: Record<string, string[]> = {
+    JavaScript: ["JS"],
+    TypeScript: ["TS"],
+    Python: [],
+    Java: [],
+    Go: ["golang"],
+    Rust: [],
+    "C++": [],
+    "C#": [],
+    Ruby: ["rails", "ruby on rails"],
+    PHP: [],
+    Kotlin: [],
+    Swift: [],
+    React: ["react.js", "reactjs"],
+    "Next.js": ["nextjs"],
+    Vue: ["vue.js", "vuejs"],
+    Angular: [],
+    "Node.js": ["Node", "nodejs"],
+    GraphQL: [],
+    REST: ["restful"],
+    SQL: [],
+    PostgreSQL: ["postgres"],
+    MySQL: [],
+    MongoDB: ["mongo"],
+    Redis: [],
+    Kafka: [],
+    Spark: ["apache spark"],
+    Airflow: [],
+    dbt: [],
+    Snowflake: [],
+    Tableau: [],
+    "Power BI": [],
+    Excel: [],
+    AWS: ["amazon web services"],
+    GCP: ["google cloud"],
+    Azure: [],
+    Docker: [],
+    Kubernetes: ["k8s"],
+    Terraform: [],
+    "CI/CD": ["continuous integration"],
+    Git: [],
+    Linux: [],
+    TensorFlow: [],
+    PyTorch: [],
+    Pandas: [],
+    Figma: [],
+    Sketch: [],
+    Jira: [],
+};
+
+const SKILLS: Record<string, string[]> = {
+    Communication: ["communicate", "communication skills"],
+    Leadership: ["lead a team", "leading teams"],
+    Mentoring: ["mentor", "mentorship", "coaching"],
+    Collaboration: ["collaborate", "cross-functional", "teamwork"],
+    "Stakeholder management": ["stakeholders", "stakeholder"],
+    "Problem solving": ["problem-solving", "solve problems"],
+    "System design": ["distributed systems", "architecture", "scalable systems"],
+    Testing: ["unit tests", "test automation", "TDD", "QA"],
+    "Code review": ["code reviews"],
+    Debugging: ["troubleshooting", "troubleshoot"],
+    "Data analysis": ["analytics", "analyze data", "analyse data"],
+    Statistics: ["statistical", "a/b testing", "experimentation"],
+    "Machine learning": ["ML", "deep learning"],
+    "User research": ["usability testing", "user interviews"],
+    Prototyping: ["wireframes", "wireframing", "prototypes"],
+    "Product strategy": ["roadmap", "product vision"],
+    Prioritisation: ["prioritization", "prioritize", "prioritise"],
+    Agile: ["scrum", "kanban"],
+    "Project management": ["project planning", "delivery"],
+    Security: ["secure coding", "authentication", "authorization"],
+    Performance: ["optimization", "optimisation", "latency"],
+    Accessibility: ["a11y", "WCAG"],
+};
+
+const RESPONSIBILITY_HEADINGS =
+    /^(responsibilities|key responsibilities|what you('|’)ll do|what you will do|the role|your role|in this role|you will|day[- ]to[- ]day)\b/i;
+const OTHER_HEADINGS =
+    /^(requirements|qualifications|about (you|us)|who you are|what we('|’)re looking for|nice to have|benefits|perks|skills|must have)\b/i;
+const BULLET = /^\s*([-*•·▪●]|\d+[.)])\s+/;
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Word boundaries that also work for names like C++, C# and Node.js. Short terms are matched
+// exactly as written so "Go", "REST" and "ML" don't fire on ordinary words.
+function termPattern(term: string): RegExp {
+    const flags = term.length <= 4 ? "" : "i";
+    return new RegExp(`(?<![\\w+#.])${escapeRegExp(term)}(?![\\w+#]|\\.\\w)`, flags);
+}
+
+const compile = (vocabulary: Record<string, string[]>) =>
+    Object.entries(vocabulary).map(
+        ([name, aliases]) => [name, [name, ...aliases].map(termPattern)] as const
+    );
+
+const TECHNOLOGY_PATTERNS = compile(TECHNOLOGIES);
+const SKILL_PATTERNS = compile(SKILLS);
+
+function findTerms(text: string, patterns: ReturnType<typeof compile>): string[] {
+    return patterns
+        .filter(([, regexes]) => regexes.some((r) => r.test(text)))
+        .map(([name]) => name);
+}
+
+function cleanLine(line: string): string {
+    const text = line.replace(BULLET, "").replace(/\s+/g, " ").trim();
+    return text.length > MAX_RESPONSIBILITY_LENGTH
+        ? `${text.slice(0, MAX_RESPONSIBILITY_LENGTH - 1).trimEnd()}…`
+        : text;
+}
+
+function findResponsibilities(text: string): string[] {
+    const lines = text.split(/\r?\n/).map((line) => line.trim());
+    const responsibilities: string[] = [];
+    let inSection = false;
+
+    for (const line of lines) {
+        const heading = line
+            .replace(/^#+\s*/, "")
+            .replace(/[:*_]+$/g, "")
+            .replace(/^\*+/, "");
+        if (RESPONSIBILITY_HEADINGS.test(heading) && !BULLET.test(line)) {
+            inSection = true;
+            continue;
+        }
+        if (OTHER_HEADINGS.test(heading) && !BULLET.test(line)) {
+            inSection = false;
+            continue;
+        }
+        if (inSection && BULLET.test(line)) {
+            responsibilities.push(cleanLine(line));
+        }
+    }
+
+    return [...new Set(responsibilities.filter(Boolean))].slice(0, MAX_RESPONSIBILITIES);
+}
+
+export function parseJobDescription(text: string): JobDescriptionContext {
+    const trimmed = text.slice(0, MAX_JOB_DESCRIPTION_LENGTH);
+    return {
+        skills: findTerms(trimmed, SKILL_PATTERNS),
+        technologies: findTerms(trimmed, TECHNOLOGY_PATTERNS),
+        responsibilities: findResponsibilities(trimmed),
+    };
+}
+
+const isStringArray = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every((item) => typeof item === "string");
+
+// Validates context sent by the client before it's forwarded to the backend
+export function toJobDescriptionContext(value: unknown): JobDescriptionContext | null {
+    const context = value as JobDescriptionContext | null;
+    if (
+        !context ||
+        !isStringArray(context.skills) ||
+        !isStringArray(context.technologies) ||
+        !isStringArray(context.responsibilities)
+    ) {
+        return null;
+    }
+
+    return {
+        skills: context.skills.slice(0, Object.keys(SKILLS).length),
+        technologies: context.technologies.slice(0, Object.keys(TECHNOLOGIES).length),
+        responsibilities: context.responsibilities
+            .slice(0, MAX_RESPONSIBILITIES)
+            .map((r) => r.slice(0, MAX_RESPONSIBILITY_LENGTH)),
+    };
+}
+
+export function hasRequirements(context: JobDescriptionContext): boolean {
+    return (
+        context.skills.length + context.technologies.length + context.responsibilities.length > 0
+    );
+}
+
+export function listRequirements(context: JobDescriptionContext): JobRequirement[] {
+    return [
+        ...context.technologies.map((text) => ({ kind: "technology" as const, text })),
+        ...context.skills.map((text) => ({ kind: "skill" as const, text })),
+        ...context.responsibilities.map((text) => ({ kind: "responsibility" as const, text })),
+    ];
+}
+
+// Words too common to say which responsibility a question is about
+const STOPWORDS = new Set(
+    `about across other their there these those which while where would could should using
+    within without through build work working ensure help team teams tell describe explain
+    time`.split(/\s+/)
+);
+
+function keywords(text: string): Set<string> {
+    return new Set(
+        (text.toLowerCase().match(/[a-z][a-z+#.-]{3,}/g) ?? []).filter((w) => !STOPWORDS.has(w))
+    );
+}
+
+/**
+ * The requirements a question exercises: named skills and technologies when the question
+ * mentions them, responsibilities when it shares at least two keywords with the bullet.
+ */
+export function matchRequirements(question: string, context: JobDescriptionContext): string[] {
+    const matched = [
+        ...findTerms(question, TECHNOLOGY_PATTERNS).filter((t) => context.technologies.includes(t)),
+        ...findTerms(question, SKILL_PATTERNS).filter((s) => context.skills.includes(s)),
+    ];
+
+    const questionWords = keywords(question);
+    for (const responsibility of context.responsibilities) {
+        const shared = [...keywords(responsibility)].filter((w) => questionWords.has(w));
+        if (shared.length >= 2) matched.push(responsibility);
+    }
+
+    return matched;
+}
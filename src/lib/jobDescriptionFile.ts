@@ -0,0 +1,39 @@
+// Reads an uploaded job description in the browser. PDFs are parsed with unpdf, which is
+// only loaded when someone actually uploads one.
+
+export const JOB_DESCRIPTION_ACCEPT = ".txt,.md,.pdf,text/plain,text/markdown,application/pdf";
+
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+
+export class JobDescriptionFileError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "JobDescriptionFileError";
+    }
+}
+
+export async function readJobDescriptionFile(file: File): Promise<string> {
+    if (file.size > MAX_FILE_BYTES) {
+        throw new JobDescriptionFileError("That file is larger than 5 MB");
+    }
+
+    const extension = file.name.split(".").pop()?.toLowerCase();
+
+    if (extension === "txt" || extension === "md") {
+        return file.text();
+    }
+
+    if (extension === "pdf") {
+        const { extractText, getDocumentProxy } = await import("unpdf");
+        try {
+            const pdf = await getDocumentProxy(new Uint8Array(await file.arrayBuffer()));
+            const { text } = await extractText(pdf, { mergePages: true });
+            return text;
+        } catch (error) {
+            console.error("Error reading PDF:", error);
+            throw new JobDescriptionFileError("We couldn't read text from that PDF");
+        }
+    }
+
+    throw new JobDescriptionFileError("Upload a .txt, .md or .pdf file");
+}
@@ -0,0 +1,40 @@
+import { randomBytes, scryptSync, timingSafeEqual } from "crypto";
+
+// Password hashes are stored as "scrypt.<salt>.<key>" in hex; dots keep them safe in .env files
+const KEY_LENGTH = 64;
+
+export function hashPassword(password: string): string {
+    const salt = randomBytes(16).toString("hex");
+    const key = scryptSync(password, salt, KEY_LENGTH).toString("hex");
+    return `scrypt.${salt}.${key}`;
+}
+
+export function verifyPassword(password: string, stored: string): boolean {
+    const [scheme, salt, key] = stored.split(".");
+    if (scheme !== "scrypt" || !salt || !key) return false;
+
+    const expected = Buffer.from(key, "hex");
+    const actual = scryptSync(password, salt, expected.length);
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+export interface CredentialsUser {
+    email: string;
+    passwordHash: string;
+}
+
+// CREDENTIALS_USERS is a comma-separated list of "email:hash" entries
+export function getCredentialsUsers(): CredentialsUser[] {
+    return (process.env.CREDENTIALS_USERS || "")
+        .split(",")
+        .map((entry) => entry.trim())
+        .filter(Boolean)
+        .map((entry) => {
+            const separator = entry.indexOf(":");
+            return {
+                email: entry.slice(0, separator).toLowerCase(),
+                passwordHash: entry.slice(separator + 1),
+            };
+        })
+        .filter((user) => user.email && user.passwordHash);
+}
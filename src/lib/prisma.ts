@@ -0,0 +1,10 @@
+import { PrismaClient } from "@prisma/client";
+
+// Reuse one client across hot reloads in development instead of opening a new pool each time
+const globalForPrisma = globalThis as unknown as { prisma?: PrismaClient };
+
+export const prisma = globalForPrisma.prisma ?? new PrismaClient();
+
+if (process.env.NODE_ENV !== "production") {
+    globalForPrisma.prisma = prisma;
+}
@@ -0,0 +1,120 @@
+import bank from "@/data/questionBank.json";
+import { CodingChallenge } from "@/lib/codingChallenge";
+import { Question } from "@/lib/interviewSession";
+import { QUESTION_TYPES, QuestionMix } from "@/lib/questionMix";
+
+// Curated questions shipped with the app in src/data/questionBank.json. They stand in for
+// generated ones when the backend is down or the user picks offline mode. Bump the file's
+// version whenever its questions change.
+
+export type RoleFamily = "software-engineering" | "data" | "product" | "design" | "general";
+
+interface BankEntry {
+    id: string;
+    roleFamily: RoleFamily;
+    type: Question["type"];
+    difficulty: Question["difficulty"];
+    seniority?: string[]; // every level when omitted
+    category: string;
+    question: string; // may contain {role} and {company}
+    coding?: CodingChallenge; // set on every coding question
+}
+
+export const QUESTION_BANK_VERSION: number = bank.version;
+
+const entries = bank.questions as BankEntry[];
+
+// Checked in order, so "Product Designer" is design and "Data Engineer" is data
+const ROLE_FAMILY_PATTERNS: [RoleFamily, RegExp][] = [
+    ["design", /\b(design(er)?|ux|ui|user research(er)?)\b/i],
+    ["data", /\b(data|analyst|analytics|scientist|machine learning|ml|ai)\b/i],
+    ["product", /\b(product|pm|program manager)\b/i],
+    [
+        "software-engineering",
+        /\b(engineer|developer|software|programmer|frontend|backend|full[- ]?stack|devops|sre)\b/i,
+    ],
+];
+
+export function roleFamilyFor(jobRole: string): RoleFamily {
+    return ROLE_FAMILY_PATTERNS.find(([, pattern]) => pattern.test(jobRole))?.[0] ?? "general";
+}
+
+// Families whose interviews include coding and system design
+const ENGINEERING_ROLE_FAMILIES: RoleFamily[] = ["software-engineering", "data"];
+
+export function isEngineeringRole(jobRole: string): boolean {
+    return ENGINEERING_ROLE_FAMILIES.includes(roleFamilyFor(jobRole));
+}
+
+export interface BankSelection {
+    jobRole: string;
+    company: string;
+    difficulty: Question["difficulty"];
+    seniority: string;
+    questionMix: QuestionMix;
+    avoid?: (question: string) => boolean; // e.g. already answered; only used if nothing else fits
+}
+
+function fillTemplate(question: string, selection: BankSelection): string {
+    return question
+        .replaceAll("{role}", selection.jobRole)
+        .replaceAll("{company}", selection.company);
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+}
+
+/**
+ * Draws each type's count from the mix for the role. Questions for the role's own family, then
+ * general ones, the chosen difficulty and seniority come first, and the types take turns in the
+ * result. Other families' questions of a type fill in when the role's own run short, and
+ * avoided questions are only drawn when there aren't enough others. Returns fewer questions of
+ * a type only when the whole bank doesn't have enough of it.
+ */
+export function selectBankQuestions(selection: BankSelection, random = Math.random): Question[] {
+    const family = roleFamilyFor(selection.jobRole);
+
+    const score = (entry: BankEntry) =>
+        (entry.roleFamily === family ? 8 : entry.roleFamily === "general" ? 4 : 0) +
+        (entry.difficulty === selection.difficulty ? 2 : 0) +
+        (!entry.seniority || entry.seniority.includes(selection.seniority) ? 1 : 0);
+
+    const queues = QUESTION_TYPES.map((type) => {
+        const count = selection.questionMix[type];
+        const isFresh = (entry: BankEntry) =>
+            !selection.avoid?.(fillTemplate(entry.question, selection));
+        const ofType = entries.filter((entry) => entry.type === type);
+        const forRole = ofType.filter(
+            (entry) => entry.roleFamily === family || entry.roleFamily === "general"
+        );
+        const candidates = forRole.filter(isFresh).length >= count ? forRole : ofType;
+        const fresh = candidates.filter(isFresh);
+
+        // Shuffling before the stable sort varies the picks among equally good questions
+        return shuffle(fresh.length >= count ? fresh : candidates, random)
+            .sort((a, b) => score(b) - score(a))
+            .slice(0, count);
+    });
+
+    const picked: BankEntry[] = [];
+    for (let i = 0; i < Math.max(...queues.map((queue) => queue.length)); i++) {
+        for (const queue of queues) {
+            if (queue[i]) picked.push(queue[i]);
+        }
+    }
+
+    return picked.map((entry) => ({
+        id: entry.id,
+        question: fillTemplate(entry.question, selection),
+        type: entry.type,
+        difficulty: entry.difficulty,
+        category: entry.category,
+        ...(entry.coding ? { coding: entry.coding } : {}),
+    }));
+}
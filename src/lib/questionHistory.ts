@@ -0,0 +1,144 @@
+import { GuestInterview } from "@/lib/guestHistory";
+import { Question, WEAK_OVERALL_SCORE } from "@/lib/interviewSession";
+import { roleFamilyFor } from "@/lib/questionBank";
+import { QUESTION_DIFFICULTIES, QUESTION_TYPES, QuestionMix } from "@/lib/questionMix";
+
+// What the user has already answered, so new question sets skip near-repeats or, on request,
+// bring back the questions they struggled with. Questions are compared by fingerprint: their
+// distinctive words, lowercased, crudely stemmed and sorted.
+
+export interface AnsweredQuestion {
+    question: string;
+    type: Question["type"] | null;
+    difficulty: Question["difficulty"] | null;
+    category: string | null;
+    jobRole: string;
+    overallScore: number | null;
+    answeredAt: string;
+}
+
+// Most recent answers considered; older ones are unlikely to feel like repeats
+export const MAX_ANSWERED_QUESTIONS = 200;
+
+// Dice similarity of two fingerprints at or above which questions count as the same
+const NEAR_DUPLICATE_SIMILARITY = 0.7;
+
+// Phrasing that interview questions share whatever they ask about
+const STOPWORDS = new Set(
+    `a about an and any are as at be been can could describe did do does example explain for
+    from give had has have how i if in is it me of on or our some tell than that the their
+    them there this time to us was we were what when where which while who why will with
+    would you your yourself`.split(/\s+/)
+);
+
+function stem(word: string): string {
+    return word.length > 5 ? word.replace(/(ing|ed|er|es|s)$/, "") : word;
+}
+
+export function questionFingerprint(text: string): string {
+    const words = (text.toLowerCase().match(/[a-z0-9+#]+/g) ?? [])
+        .filter((word) => !STOPWORDS.has(word))
+        .map(stem);
+    return [...new Set(words)].sort().join(" ");
+}
+
+function similarity(a: string, b: string): number {
+    const left = new Set(a.split(" ").filter(Boolean));
+    const right = new Set(b.split(" ").filter(Boolean));
+    if (left.size === 0 || right.size === 0) return 0;
+
+    const shared = [...left].filter((word) => right.has(word)).length;
+    return (2 * shared) / (left.size + right.size);
+}
+
+export function isNearDuplicate(question: string, fingerprints: string[]): boolean {
+    const fingerprint = questionFingerprint(question);
+    return fingerprints.some(
+        (other) => similarity(fingerprint, other) >= NEAR_DUPLICATE_SIMILARITY
+    );
+}
+
+// Newest first, capped like the backend's list
+export function answeredFromGuestHistory(interviews: GuestInterview[]): AnsweredQuestion[] {
+    return interviews
+        .flatMap((interview) =>
+            interview.responses.map((response) => ({
+                question: response.question,
+                type: response.type,
+                difficulty: response.difficulty,
+                category:
+                    interview.questions.find((q) => q.id === response.questionId)?.category ?? null,
+                jobRole: interview.jobRole,
+                overallScore: response.feedback.overallScore,
+                answeredAt: interview.completedAt,
+            }))
+        )
+        .sort((a, b) => b.answeredAt.localeCompare(a.answeredAt))
+        .slice(0, MAX_ANSWERED_QUESTIONS);
+}
+
+// Validates guest history sent by the client; anything malformed is dropped, not rejected
+export function toAnsweredQuestions(value: unknown): AnsweredQuestion[] {
+    if (!Array.isArray(value)) return [];
+
+    return value
+        .filter(
+            (item): item is AnsweredQuestion =>
+                !!item &&
+                typeof item.question === "string" &&
+                typeof item.jobRole === "string" &&
+                typeof item.answeredAt === "string"
+        )
+        .slice(0, MAX_ANSWERED_QUESTIONS)
+        .map((item) => ({
+            question: item.question,
+            type: QUESTION_TYPES.includes(item.type as Question["type"]) ? item.type : null,
+            difficulty: QUESTION_DIFFICULTIES.includes(item.difficulty as Question["difficulty"])
+                ? item.difficulty
+                : null,
+            category: typeof item.category === "string" ? item.category : null,
+            jobRole: item.jobRole,
+            overallScore: typeof item.overallScore === "number" ? item.overallScore : null,
+            answeredAt: item.answeredAt,
+        }));
+}
+
+/**
+ * Weakly answered questions to practise again, up to each type's count in the mix: same role
+ * family, lowest score first, each question once however often it was answered. Coding
+ * questions aren't brought back: history keeps their prompt but not their tests.
+ */
+export function selectWeakQuestions(
+    answered: AnsweredQuestion[],
+    selection: { jobRole: string; questionMix: QuestionMix }
+): Question[] {
+    const family = roleFamilyFor(selection.jobRole);
+    const remaining = { ...selection.questionMix };
+    const seen: string[] = [];
+
+    return answered
+        .filter(
+            (a) =>
+                a.overallScore !== null &&
+                a.overallScore < WEAK_OVERALL_SCORE &&
+                a.type !== null &&
+                a.type !== "coding" &&
+                roleFamilyFor(a.jobRole) === family
+        )
+        .sort((a, b) => (a.overallScore ?? 0) - (b.overallScore ?? 0))
+        .filter((a) => {
+            const type = a.type as Question["type"];
+            if (remaining[type] === 0 || isNearDuplicate(a.question, seen)) return false;
+            remaining[type]--;
+            seen.push(questionFingerprint(a.question));
+            return true;
+        })
+        .map((a, index) => ({
+            id: `revisit-${index}`,
+            question: a.question,
+            type: a.type as Question["type"],
+            difficulty: a.difficulty ?? "medium",
+            category: a.category ?? "Revisit",
+            previousScore: a.overallScore ?? undefined,
+        }));
+}
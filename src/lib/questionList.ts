@@ -0,0 +1,94 @@
+import { toCodingChallenge } from "@/lib/codingChallenge";
+import { Question } from "@/lib/interviewSession";
+import { MAX_QUESTIONS, QUESTION_DIFFICULTIES, QUESTION_TYPES } from "@/lib/questionMix";
+
+// Editing the question list between generating it and starting the mock interview:
+// reordering, retyping, the user's own questions, and validating an edited list before it
+// replaces the saved question set.
+
+export const MAX_QUESTION_LENGTH = 1000;
+
+export function moveQuestion(questions: Question[], from: number, to: number): Question[] {
+    if (from === to || !questions[from] || to < 0 || to >= questions.length) return questions;
+
+    const moved = [...questions];
+    const [question] = moved.splice(from, 1);
+    moved.splice(to, 0, question);
+    return moved;
+}
+
+// A question of another type no longer stands in for its company stage, and only coding
+// questions keep a challenge
+export function changeQuestion(
+    question: Question,
+    changes: Partial<Pick<Question, "type" | "difficulty">>
+): Question {
+    const changed: Question = { ...question, ...changes };
+    if (!changes.type || changes.type === question.type) return changed;
+
+    delete changed.stage;
+    delete changed.timeLimit;
+    if (changed.type !== "coding") delete changed.coding;
+    return changed;
+}
+
+export function createCustomQuestion(
+    text: string,
+    type: Question["type"],
+    difficulty: Question["difficulty"]
+): Question {
+    return {
+        id: `custom-${crypto.randomUUID()}`,
+        question: text.trim().slice(0, MAX_QUESTION_LENGTH),
+        type,
+        difficulty,
+        category: "Your question",
+    };
+}
+
+/**
+ * Validates an edited list sent by the client: 1 to MAX_QUESTIONS questions with unique ids,
+ * known types and difficulties. Optional fields are kept when well-formed and dropped
+ * otherwise. Returns null if any question is unusable.
+ */
+export function toQuestionList(value: unknown): Question[] | null {
+    if (!Array.isArray(value) || value.length === 0 || value.length > MAX_QUESTIONS) return null;
+
+    const questions: Question[] = [];
+    for (const item of value) {
+        if (
+            !item ||
+            typeof item.id !== "string" ||
+            typeof item.question !== "string" ||
+            !item.question.trim() ||
+            item.question.length > MAX_QUESTION_LENGTH ||
+            !QUESTION_TYPES.includes(item.type) ||
+            !QUESTION_DIFFICULTIES.includes(item.difficulty) ||
+            questions.some((q) => q.id === item.id)
+        ) {
+            return null;
+        }
+
+        const coding = item.type === "coding" ? toCodingChallenge(item.coding) : null;
+        questions.push({
+            id: item.id,
+            question: item.question,
+            type: item.type,
+            difficulty: item.difficulty,
+            category: typeof item.category === "string" ? item.category : "",
+            ...(Array.isArray(item.covers)
+                ? { covers: item.covers.filter((c: unknown) => typeof c === "string") }
+                : {}),
+            ...(typeof item.resumeItem === "string" ? { resumeItem: item.resumeItem } : {}),
+            ...(typeof item.previousScore === "number"
+                ? { previousScore: item.previousScore }
+                : {}),
+            ...(typeof item.stage === "string" ? { stage: item.stage } : {}),
+            ...(Number.isFinite(item.timeLimit) && item.timeLimit > 0
+                ? { timeLimit: item.timeLimit }
+                : {}),
+            ...(coding ? { coding } : {}),
+        });
+    }
+    return questions;
+}
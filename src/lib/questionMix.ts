@@ -0,0 +1,104 @@
+import { Question } from "@/lib/interviewSession";
+import { getTimeBudget } from "@/lib/timeBudget";
+
+// How many questions of each type an interview asks, e.g. 3 behavioral, 4 technical and
+// 2 situational. The chosen difficulty weights the whole set. Coding and system design
+// questions are only offered for engineering roles (see isEngineeringRole).
+
+export type QuestionMix = Record<Question["type"], number>;
+
+export const QUESTION_TYPES: Question["type"][] = [
+    "behavioral",
+    "technical",
+    "situational",
+    "coding",
+    "system-design",
+];
+
+export const ENGINEERING_QUESTION_TYPES: Question["type"][] = ["coding", "system-design"];
+
+export const QUESTION_TYPE_LABELS: Record<Question["type"], string> = {
+    behavioral: "Behavioral",
+    technical: "Technical",
+    situational: "Situational",
+    coding: "Coding",
+    "system-design": "System design",
+};
+
+export const QUESTION_DIFFICULTIES: Question["difficulty"][] = ["easy", "medium", "hard"];
+
+export const MIN_QUESTIONS = 1;
+export const MAX_QUESTIONS = 30;
+
+export const DEFAULT_QUESTION_MIX: QuestionMix = {
+    behavioral: 2,
+    technical: 2,
+    situational: 1,
+    coding: 0,
+    "system-design": 0,
+};
+
+export function mixTotal(mix: QuestionMix): number {
+    return QUESTION_TYPES.reduce((total, type) => total + mix[type], 0);
+}
+
+// Validates a mix sent by the client: whole, non-negative counts adding up to 1-30
+export function toQuestionMix(value: unknown): QuestionMix | null {
+    if (!value || typeof value !== "object") return null;
+
+    const counts = value as Record<string, unknown>;
+    if (
+        !QUESTION_TYPES.every((type) => Number.isInteger(counts[type]) && Number(counts[type]) >= 0)
+    ) {
+        return null;
+    }
+
+    const mix = Object.fromEntries(
+        QUESTION_TYPES.map((type) => [type, counts[type]])
+    ) as QuestionMix;
+    const total = mixTotal(mix);
+    return total >= MIN_QUESTIONS && total <= MAX_QUESTIONS ? mix : null;
+}
+
+// For backends and history that only know a single question type
+export function mixQuestionType(mix: QuestionMix): Question["type"] | "all" {
+    const types = QUESTION_TYPES.filter((type) => mix[type] > 0);
+    return types.length === 1 ? types[0] : "all";
+}
+
+export function subtractMix(mix: QuestionMix, questions: Pick<Question, "type">[]): QuestionMix {
+    const remaining = { ...mix };
+    for (const question of questions) {
+        remaining[question.type] = Math.max(0, remaining[question.type] - 1);
+    }
+    return remaining;
+}
+
+/**
+ * Keeps questions in order until each type's count is reached. Whatever the mix still needs
+ * comes back as `missing` so the caller can top those types up.
+ */
+export function fitToMix(
+    questions: Question[],
+    mix: QuestionMix
+): { questions: Question[]; missing: QuestionMix } {
+    const missing = { ...mix };
+    const fitted = questions.filter((question) => {
+        if (!(missing[question.type] > 0)) return false;
+        missing[question.type]--;
+        return true;
+    });
+    return { questions: fitted, missing };
+}
+
+// Rough length of the whole interview: every question's answer time budget
+export function estimateSessionMinutes(
+    mix: QuestionMix,
+    difficulty: Question["difficulty"]
+): number {
+    const seconds = QUESTION_TYPES.reduce(
+        (total, type) => total + mix[type] * getTimeBudget({ type, difficulty }),
+        0
+    );
+    return Math.round(seconds / 60);
+}
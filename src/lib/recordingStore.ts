@@ -0,0 +1,65 @@
+// Voice answers are kept in IndexedDB: recordings are too large for localStorage
+// and need to outlive the object URLs the recorder hands out.
+
+const DB_NAME = "prepforge";
+const STORE_NAME = "recordings";
+
+export interface StoredRecording {
+    id: string;
+    blob: Blob;
+    duration: number; // seconds
+    createdAt: string;
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, 1);
+        request.onupgradeneeded = () => {
+            request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+async function withStore<T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+    const db = await openDatabase();
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+            request.onsuccess = () => resolve(request.result as T);
+            request.onerror = () => reject(request.error);
+        });
+    } finally {
+        db.close();
+    }
+}
+
+export async function saveRecording(blob: Blob, duration: number): Promise<string> {
+    const recording: StoredRecording = {
+        id: crypto.randomUUID(),
+        blob,
+        duration,
+        createdAt: new Date().toISOString(),
+    };
+    await withStore("readwrite", (store) => store.put(recording));
+    return recording.id;
+}
+
+export async function loadRecording(id: string): Promise<StoredRecording | null> {
+    const recording = await withStore<StoredRecording | undefined>("readonly", (store) =>
+        store.get(id)
+    );
+    return recording ?? null;
+}
+
+export async function deleteRecording(id: string): Promise<void> {
+    await withStore("readwrite", (store) => store.delete(id));
+}
+
+export async function listRecordings(): Promise<StoredRecording[]> {
+    return withStore<StoredRecording[]>("readonly", (store) => store.getAll());
+}
@@ -0,0 +1,216 @@
+import { Question } from "@/lib/interviewSession";
+
+// Turns the text of a resume into experience entries, projects and skills. Uploads are
+// parsed on the server (see resumeFile.ts); this module is plain text in, data out.
+
+export interface ResumeExperience {
+    title: string;
+    organization: string;
+    period: string | null;
+    highlights: string[];
+}
+
+export interface ResumeProject {
+    name: string;
+    description: string;
+}
+
+export interface ParsedResume {
+    experience: ResumeExperience[];
+    projects: ResumeProject[];
+    skills: string[];
+}
+
+// For the upload input; files are read on the server by resumeFile.ts
+export const RESUME_ACCEPT =
+    ".pdf,.docx,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+const MAX_ENTRIES = 10;
+const MAX_HIGHLIGHTS = 5;
+const MAX_SKILLS = 40;
+const MAX_ITEM_LENGTH = 200;
+
+type Section = "experience" | "projects" | "skills" | "other";
+
+const SECTION_HEADINGS: [Section, RegExp][] = [
+    [
+        "experience",
+        /^((work|professional|relevant) )?(experience|employment( history)?|work history|career history)$/i,
+    ],
+    ["projects", /^((personal|selected|key|side) )?projects$/i],
+    [
+        "skills",
+        /^((technical|core|key) )?(skills|technologies|tools)( (and|&) (tools|technologies))?$/i,
+    ],
+    [
+        "other",
+        /^(education|certifications?|summary|profile|objective|awards|publications|languages|interests|volunteering|volunteer experience|references|achievements)$/i,
+    ],
+];
+
+const BULLET = /^\s*([-*•·▪●◦]|\d+[.)])\s+/;
+const MONTH = "(jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?";
+const PERIOD = new RegExp(
+    `((${MONTH}\\s+)?\\d{4}\\s*(-|–|—|to)\\s*((${MONTH}\\s+)?\\d{4}|present|current|now))`,
+    "i"
+);
+
+function clip(text: string): string {
+    const clean = text.replace(/\s+/g, " ").trim();
+    return clean.length > MAX_ITEM_LENGTH ? `${clean.slice(0, MAX_ITEM_LENGTH - 1)}…` : clean;
+}
+
+function headingSection(line: string): Section | null {
+    if (line.length > 40 || BULLET.test(line)) return null;
+    const heading = line.replace(/[:#*_]+/g, "").trim();
+    return SECTION_HEADINGS.find(([, pattern]) => pattern.test(heading))?.[0] ?? null;
+}
+
+// "Senior Engineer at Acme, 2019 – Present" or "Acme | Senior Engineer | 2019 - 2022"
+function parseExperienceHeader(header: string): Omit<ResumeExperience, "highlights"> {
+    const period = header.match(PERIOD)?.[0] ?? null;
+    const rest = (period ? header.replace(period, "") : header).replace(/[|,–—-]\s*$/, "").trim();
+
+    const [title, organization = ""] = rest
+        .split(/\s+at\s+|\s+@\s+|\s*[|–—]\s*|\s+-\s+|,\s*/)
+        .map((part) => part.trim())
+        .filter(Boolean);
+
+    return { title: clip(title ?? rest), organization: clip(organization), period };
+}
+
+function parseSkills(lines: string[]): string[] {
+    const skills = lines
+        // Drop group labels such as "Languages:" and keep what follows
+        .map((line) => line.replace(BULLET, "").replace(/^[^:]{1,30}:\s*/, ""))
+        .flatMap((line) => line.split(/[,|•·;]/))
+        .map((skill) => skill.trim())
+        .filter((skill) => skill.length > 0 && skill.length <= 40);
+
+    return [...new Set(skills)].slice(0, MAX_SKILLS);
+}
+
+export function parseResumeText(text: string): ParsedResume {
+    const resume: ParsedResume = { experience: [], projects: [], skills: [] };
+    const skillLines: string[] = [];
+    let section: Section = "other";
+    let lastBulletTarget: string[] | null = null;
+
+    const lines = text
+        .split(/\r?\n/)
+        .map((line) => line.trim())
+        .filter(Boolean);
+
+    for (const line of lines) {
+        const nextSection = headingSection(line);
+        if (nextSection) {
+            section = nextSection;
+            lastBulletTarget = null;
+            continue;
+        }
+
+        const isBullet = BULLET.test(line);
+        const content = line.replace(BULLET, "");
+
+        // PDFs wrap long bullets onto lines that start lowercase
+        if (!isBullet && lastBulletTarget && /^[a-z]/.test(line)) {
+            const last = lastBulletTarget.length - 1;
+            lastBulletTarget[last] = clip(`${lastBulletTarget[last]} ${line}`);
+            continue;
+        }
+
+        if (section === "experience") {
+            const current = resume.experience[resume.experience.length - 1];
+            if (isBullet && current) {
+                if (current.highlights.length < MAX_HIGHLIGHTS) {
+                    current.highlights.push(clip(content));
+                }
+                lastBulletTarget = current.highlights;
+            } else if (!isBullet) {
+                // A dates-only line belongs to the entry above it
+                if (current && !current.period && current.highlights.length === 0) {
+                    const period = line.match(PERIOD)?.[0];
+                    if (period && period.length >= line.length - 2) {
+                        current.period = period;
+                        continue;
+                    }
+                }
+                resume.experience.push({ ...parseExperienceHeader(line), highlights: [] });
+                lastBulletTarget = null;
+            }
+        } else if (section === "projects") {
+            const current = resume.projects[resume.projects.length - 1];
+            if (isBullet && current) {
+                current.description = clip(
+                    current.description ? `${current.description} ${content}` : content
+                );
+                lastBulletTarget = null;
+            } else {
+                const [name, ...description] = content.split(/:\s+|\s+[–—-]\s+/);
+                resume.projects.push({
+                    name: clip(name),
+                    description: clip(description.join(" - ")),
+                });
+                lastBulletTarget = null;
+            }
+        } else if (section === "skills") {
+            skillLines.push(line);
+        }
+    }
+
+    resume.experience = resume.experience.filter((e) => e.title).slice(0, MAX_ENTRIES);
+    resume.projects = resume.projects.filter((p) => p.name).slice(0, MAX_ENTRIES);
+    resume.skills = parseSkills(skillLines);
+    return resume;
+}
+
+export function hasResumeContent(resume: ParsedResume): boolean {
+    return resume.experience.length + resume.projects.length + resume.skills.length > 0;
+}
+
+export function describeExperience(entry: ResumeExperience): string {
+    return entry.organization ? `${entry.title} at ${entry.organization}` : entry.title;
+}
+
+/**
+ * Behavioral questions about specific resume items, used when the backend can't tailor
+ * questions itself. Alternates between roles and projects, then digs into highlights.
+ */
+export function buildResumeQuestions(resume: ParsedResume, count: number): Question[] {
+    const roles: Question[] = resume.experience.map((entry, index) => ({
+        id: `resume-experience-${index}`,
+        question: `Walk me through your time as ${describeExperience(entry)}. What were you responsible for, and what are you most proud of?`,
+        type: "behavioral",
+        difficulty: "medium",
+        category: "Your experience",
+        resumeItem: describeExperience(entry),
+    }));
+
+    const projects: Question[] = resume.projects.map((project, index) => ({
+        id: `resume-project-${index}`,
+        question: `Walk me through the ${project.name} project. What problem did it solve, what was your part, and what would you do differently?`,
+        type: "behavioral",
+        difficulty: "medium",
+        category: "Your projects",
+        resumeItem: project.name,
+    }));
+
+    const highlights: Question[] = resume.experience.flatMap((entry, index) =>
+        entry.highlights.map((highlight, highlightIndex) => ({
+            id: `resume-highlight-${index}-${highlightIndex}`,
+            question: `Your resume says: "${highlight}". Tell me how you did that and how you measured the result.`,
+            type: "behavioral" as const,
+            difficulty: "hard" as const,
+            category: "Your experience",
+            resumeItem: describeExperience(entry),
+        }))
+    );
+
+    const alternated: Question[] = [];
+    for (let i = 0; i < Math.max(roles.length, projects.length); i++) {
+        if (roles[i]) alternated.push(roles[i]);
+        if (projects[i]) alternated.push(projects[i]);
+    }
+
+    return [...alternated, ...highlights].slice(0, count);
+}
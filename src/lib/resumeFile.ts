@@ -0,0 +1,45 @@
+// Pulls the text out of an uploaded resume on the server: PDFs with unpdf, Word documents
+// with mammoth. Both are loaded only when a file of that kind comes in.
+
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+
+export class ResumeFileError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "ResumeFileError";
+    }
+}
+
+export async function extractResumeText(file: File): Promise<string> {
+    if (file.size > MAX_FILE_BYTES) {
+        throw new ResumeFileError("That file is larger than 5 MB");
+    }
+
+    const extension = file.name.split(".").pop()?.toLowerCase();
+    const buffer = await file.arrayBuffer();
+
+    if (extension === "pdf") {
+        const { extractText, getDocumentProxy } = await import("unpdf");
+        try {
+            const pdf = await getDocumentProxy(new Uint8Array(buffer));
+            const { text } = await extractText(pdf, { mergePages: true });
+            return text;
+        } catch (error) {
+            console.error("Error reading resume PDF:", error);
+            throw new ResumeFileError("We couldn't read text from that PDF");
+        }
+    }
+
+    if (extension === "docx") {
+        const mammoth = await import("mammoth");
+        try {
+            const { value } = await mammoth.extractRawText({ buffer: Buffer.from(buffer) });
+            return value;
+        } catch (error) {
+            console.error("Error reading resume DOCX:", error);
+            throw new ResumeFileError("We couldn't read text from that document");
+        }
+    }
+
+    throw new ResumeFileError("Upload a .pdf or .docx file");
+}
@@ -0,0 +1,51 @@
+import { prisma } from "@/lib/prisma";
+import { ParsedResume } from "@/lib/resume";
+import { getSessionUser } from "@/lib/session";
+import { StoredResume } from "@/lib/apiTypes";
+
+// The signed-in user's parsed resume, kept in our database next to their profile
+
+interface ResumeRow {
+    fileName: string;
+    parsed: string;
+    updatedAt: Date;
+}
+
+function toStoredResume(row: ResumeRow): StoredResume {
+    return {
+        fileName: row.fileName,
+        updatedAt: row.updatedAt.toISOString(),
+        parsed: JSON.parse(row.parsed) as ParsedResume,
+    };
+}
+
+export async function loadResume(userId: number): Promise<StoredResume | null> {
+    const row: ResumeRow | null = await prisma.resume.findUnique({ where: { userId } });
+    return row ? toStoredResume(row) : null;
+}
+
+// Replaces any earlier upload
+export async function saveResume(
+    userId: number,
+    fileName: string,
+    parsed: ParsedResume
+): Promise<StoredResume> {
+    const data = { fileName, parsed: JSON.stringify(parsed) };
+    const row: ResumeRow = await prisma.resume.upsert({
+        where: { userId },
+        create: { userId, ...data },
+        update: data,
+    });
+    return toStoredResume(row);
+}
+
+// For routes where the client opts in with a flag; guests never have a resume
+export async function loadRequestedResume(requested: unknown): Promise<ParsedResume | null> {
+    if (!requested) return null;
+    const user = await getSessionUser();
+    return user ? ((await loadResume(user.id))?.parsed ?? null) : null;
+}
+
+export async function deleteResume(userId: number): Promise<void> {
+    await prisma.resume.deleteMany({ where: { userId } });
+}
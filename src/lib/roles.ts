@@ -0,0 +1,26 @@
+// Roles are ranked: coaches can do everything users can, admins everything coaches can.
+export const ROLES = ["user", "coach", "admin"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export function isRole(value: unknown): value is Role {
+    return ROLES.includes(value as Role);
+}
+
+// Anything unexpected in the database or a token falls back to the least privileged role
+export function parseRole(value: unknown): Role {
+    return isRole(value) ? value : "user";
+}
+
+export function hasRole(role: Role, required: Role): boolean {
+    return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+// ADMIN_EMAILS bootstraps the first admins; everyone else is promoted from the admin console
+export function isBootstrapAdmin(email: string | null | undefined): boolean {
+    if (!email) return false;
+    return (process.env.ADMIN_EMAILS ?? "")
+        .split(",")
+        .map((entry) => entry.trim().toLowerCase())
+        .includes(email.toLowerCase());
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { getServerSession, Session } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { hasRole } from "@/lib/roles";
+
+export type SessionUser = Session["user"];
+
+export async function getSessionUser(): Promise<SessionUser | null> {
+    const session = await getServerSession(authOptions);
+    return session?.user ?? null;
+}
+
+export function unauthorizedResponse(): NextResponse {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+}
+
+// For routes addressed by user id: users may read their own data, coaches and admins anyone's
+export function canViewUserData(user: SessionUser, userId: string): boolean {
+    return String(user.id) === userId || hasRole(user.role, "coach");
+}
+
+export function forbiddenResponse(): NextResponse {
+    return NextResponse.json({ error: "You don't have access to this resource" }, { status: 403 });
+}
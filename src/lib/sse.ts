@@ -0,0 +1,128 @@
+export interface StreamEvent {
+    event: string;
+    data: unknown;
+}
+
+export interface SseMessage {
+    event: string;
+    data: string;
+}
+
+const encoder = new TextEncoder();
+
+export function encodeSseEvent({ event, data }: StreamEvent): Uint8Array {
+    return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Reads a text/event-stream body and yields one message per blank-line separated block.
+ * Works with both fetch responses in the browser and upstream responses on the server.
+ */
+export async function* readSseEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<SseMessage> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+
+            buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, "\n");
+
+            let boundary = buffer.indexOf("\n\n");
+            while (boundary !== -1) {
+                const block = buffer.slice(0, boundary);
+                buffer = buffer.slice(boundary + 2);
+                boundary = buffer.indexOf("\n\n");
+
+                let event = "message";
+                const data: string[] = [];
+                for (const line of block.split("\n")) {
+                    if (line.startsWith("event:")) {
+                        event = line.slice(6).trim();
+                    } else if (line.startsWith("data:")) {
+                        data.push(line.slice(5).trimStart());
+                    }
+                }
+
+                if (data.length > 0) {
+                    yield { event, data: data.join("\n") };
+                }
+            }
+        }
+    } finally {
+        reader.releaseLock();
+    }
+}
+
+/**
+ * Wraps an async iterable of events in a streaming SSE response. Errors thrown while
+ * iterating are sent to the client as a final `error` event instead of dropping the connection.
+ */
+export function createSseResponse(events: AsyncIterable<StreamEvent>): Response {
+    const iterator = events[Symbol.asyncIterator]();
+
+    const stream = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            try {
+                const { done, value } = await iterator.next();
+                if (done) {
+                    controller.close();
+                    return;
+                }
+                controller.enqueue(encodeSseEvent(value));
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                controller.enqueue(encodeSseEvent({ event: "error", data: { error: message } }));
+                controller.close();
+            }
+        },
+        async cancel() {
+            // The client went away, so stop producing tokens
+            await iterator.return?.();
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache, no-transform",
+            Connection: "keep-alive",
+        },
+    });
+}
+
+/**
+ * Relays a backend SSE stream as `token` events followed by a single `done` event.
+ * Backend messages carry `token` (or `text`) while streaming and mark the final payload
+ * with either `event: done` or `done: true`; `finish` turns that payload into the result.
+ */
+export async function* relayBackendStream(
+    response: Response,
+    finish: (payload: Record<string, unknown>) => unknown
+): AsyncGenerator<StreamEvent> {
+    if (!response.ok || !response.body) {
+        throw new Error("Backend API call failed");
+    }
+
+    for await (const message of readSseEvents(response.body)) {
+        const payload = JSON.parse(message.data) as Record<string, unknown>;
+
+        if (message.event === "done" || payload.done === true) {
+            yield { event: "done", data: finish(payload) };
+            return;
+        }
+
+        if (message.event === "error") {
+            throw new Error(String(payload.error || "Backend stream failed"));
+        }
+
+        const token = payload.token ?? payload.text;
+        if (typeof token === "string") {
+            yield { event: "token", data: { text: token } };
+        }
+    }
+
+    throw new Error("Backend stream ended before the response was complete");
+}
@@ -0,0 +1,80 @@
+import { InterviewFeedback } from "@/lib/feedback";
+import { StreamEvent } from "@/lib/sse";
+import { getOvertime } from "@/lib/timeBudget";
+
+// Local stand-in for the backend streams, enabled with STREAM_PROVIDER=stub.
+// Output depends only on the input so the flow can be exercised offline and in tests.
+
+const TOKEN_DELAY_MS = 30;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export const isStreamStubEnabled = () => process.env.STREAM_PROVIDER === "stub";
+
+async function* tokenize(text: string): AsyncGenerator<StreamEvent> {
+    for (const token of text.match(/\S+\s*/g) ?? []) {
+        await wait(TOKEN_DELAY_MS);
+        yield { event: "token", data: { text: token } };
+    }
+}
+
+function buildStubFeedback(
+    answer: string,
+    timeSpent: number,
+    timeLimit: number | null
+): InterviewFeedback {
+    const wordCount = answer.trim().split(/\s+/).filter(Boolean).length;
+    const clamp = (score: number) => Math.max(1, Math.min(10, score));
+
+    const depthScore = clamp(Math.round(wordCount / 20) + 2);
+    const clarityScore = clamp(/[.!?]/.test(answer) ? 7 : 5);
+    const relevanceScore = clamp(wordCount >= 30 ? 7 : 4);
+    const overallScore = Math.round(((depthScore + clarityScore + relevanceScore) / 3) * 10) / 10;
+    const overtime = getOvertime(timeSpent, timeLimit);
+
+    return {
+        summary: `Your ${wordCount}-word answer ${
+            wordCount >= 30 ? "covers the question" : "is brief"
+        }. Structure it around a concrete situation, your actions and a measurable result.${
+            overtime > 0 ? ` You went ${overtime}s over the ${timeLimit}s limit.` : ""
+        }`,
+        relevanceScore,
+        clarityScore,
+        depthScore,
+        overallScore,
+        strengths: wordCount >= 30 ? ["Addresses the question directly"] : [],
+        improvements: [
+            "Quantify the impact of your work",
+            "Close with what you learned",
+            ...(overtime > 0 ? ["Keep answers within the time limit"] : []),
+        ],
+    };
+}
+
+export async function* stubFeedbackEvents(
+    answer: string,
+    timeSpent = 0,
+    timeLimit: number | null = null
+): AsyncGenerator<StreamEvent> {
+    const feedback = buildStubFeedback(answer, timeSpent, timeLimit);
+    yield* tokenize(feedback.summary);
+    yield { event: "done", data: { feedback } };
+}
+
+const STUB_FOLLOW_UPS = [
+    (question: string) =>
+        `Thinking back to "${question}", what would you do differently if you faced it again?`,
+    () => "What was the hardest trade-off you made along the way, and why?",
+    () => "How did you measure whether it worked?",
+    () => "Who disagreed with your approach, and how did you bring them along?",
+    () => "What would break first if the scope doubled?",
+];
+
+export async function* stubFollowUpEvents(
+    originalQuestion: string,
+    depth: number
+): AsyncGenerator<StreamEvent> {
+    const followUpQuestion = STUB_FOLLOW_UPS[depth % STUB_FOLLOW_UPS.length](originalQuestion);
+    yield* tokenize(followUpQuestion);
+    yield { event: "done", data: { followUpQuestion } };
+}
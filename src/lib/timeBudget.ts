@@ -0,0 +1,34 @@
+import { Question } from "@/lib/interviewSession";
+
+export type TimeUpBehavior = "auto-submit" | "flag";
+
+// Seconds allowed for a medium question of each type
+const BASE_BUDGET: Record<Question["type"], number> = {
+    behavioral: 180,
+    technical: 240,
+    situational: 150,
+    coding: 1200,
+    "system-design": 1800,
+};
+
+const DIFFICULTY_MULTIPLIER: Record<Question["difficulty"], number> = {
+    easy: 0.75,
+    medium: 1,
+    hard: 1.5,
+};
+
+export function getTimeBudget(
+    question: Pick<Question, "type" | "difficulty" | "timeLimit">
+): number {
+    if (question.timeLimit) return question.timeLimit;
+
+    const base = BASE_BUDGET[question.type] ?? BASE_BUDGET.behavioral;
+    const multiplier = DIFFICULTY_MULTIPLIER[question.difficulty] ?? 1;
+    // Round to whole 15 second steps so budgets read naturally on the timer
+    return Math.round((base * multiplier) / 15) * 15;
+}
+
+export function getOvertime(timeSpent: number, timeLimit: number | null): number {
+    if (timeLimit === null) return 0;
+    return Math.max(0, timeSpent - timeLimit);
+}
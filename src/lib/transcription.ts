@@ -0,0 +1,76 @@
+import { backendFetch } from "@/lib/backend";
+
+export interface TranscriptionResult {
+    transcript: string;
+}
+
+export interface TranscriptionProvider {
+    name: string;
+    transcribe: (audio: Blob, options: { duration?: number }) => Promise<TranscriptionResult>;
+}
+
+export class TranscriptionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "TranscriptionError";
+    }
+}
+
+// Forwards the recording to the backend's speech-to-text endpoint
+const backendProvider: TranscriptionProvider = {
+    name: "backend",
+    async transcribe(audio, { duration }) {
+        const formData = new FormData();
+        formData.append("audio", audio, "answer.webm");
+        if (duration !== undefined) {
+            formData.append("duration", String(duration));
+        }
+
+        const response = await backendFetch("/api/transcribe", {
+            method: "POST",
+            body: formData,
+        });
+
+        if (!response.ok) {
+            throw new TranscriptionError("Backend transcription failed");
+        }
+
+        const data = await response.json();
+        if (typeof data.transcript !== "string") {
+            throw new TranscriptionError("Backend returned no transcript");
+        }
+        return { transcript: data.transcript };
+    },
+};
+
+// Deterministic stand-in so the voice flow works offline and in tests:
+// the same recording always produces the same transcript.
+const stubProvider: TranscriptionProvider = {
+    name: "stub",
+    async transcribe(audio, { duration }) {
+        const bytes = new Uint8Array(await audio.arrayBuffer());
+        let checksum = 0;
+        for (const byte of bytes) {
+            checksum = (checksum * 31 + byte) % 100000;
+        }
+
+        const length = duration !== undefined ? `${duration}-second` : `${bytes.length}-byte`;
+        return {
+            transcript: `In my last role I led a project where I had to balance competing priorities. (Stub transcript of a ${length} recording, #${checksum}.)`,
+        };
+    },
+};
+
+const providers: Record<string, TranscriptionProvider> = {
+    backend: backendProvider,
+    stub: stubProvider,
+};
+
+export function getTranscriptionProvider(): TranscriptionProvider {
+    const name = process.env.TRANSCRIPTION_PROVIDER || "backend";
+    const provider = providers[name];
+    if (!provider) {
+        throw new TranscriptionError(`Unknown transcription provider "${name}"`);
+    }
+    return provider;
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+
+// Database sessions can't be looked up at the edge, so this only checks that a session cookie
+// is present. Pages re-check with useSession and API routes with getServerSession.
+const SESSION_COOKIE_PREFIXES = ["next-auth.session-token", "__Secure-next-auth.session-token"];
+
+function hasSessionCookie(request: NextRequest): boolean {
+    return request.cookies
+        .getAll()
+        .some(({ name }) => SESSION_COOKIE_PREFIXES.some((prefix) => name.startsWith(prefix)));
+}
+
+export function middleware(request: NextRequest) {
+    if (hasSessionCookie(request)) {
+        return NextResponse.next();
+    }
+
+    const { pathname, search } = request.nextUrl;
+    if (pathname.startsWith("/api/")) {
+        return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+
+    const signInUrl = new URL("/auth/signin", request.url);
+    signInUrl.searchParams.set("callbackUrl", `${pathname}${search}`);
+    return NextResponse.redirect(signInUrl);
+}
+
+// Private pages and the API routes behind them; add new ones here. Role checks happen in the
+// pages and handlers themselves.
+export const config = {
+    matcher: [
+        "/dashboard/:path*",
+        "/analytics/:path*",
+        "/interview/:path*",
+        "/admin/:path*",
+        "/settings/:path*",
+        "/api/user-stats/:path*",
+        "/api/interview-history/:path*",
+        "/api/analytics/:path*",
+        "/api/interview-details/:path*",
+        "/api/history/:path*",
+        "/api/bookmarks/:path*",
+        "/api/admin/:path*",
+        "/api/guest-history/:path*",
+        "/api/account/:path*",
+        "/api/resume/:path*",
+        "/api/question-sets/:path*",
+    ],
+};
@@ -0,0 +1,22 @@
+import { DefaultSession } from "next-auth";
+import { Role } from "@/lib/roles";
+
+declare module "next-auth" {
+    interface Session {
+        user: DefaultSession["user"] & {
+            id: number;
+            role: Role;
+        };
+    }
+
+    interface User {
+        role?: string;
+        suspendedAt?: Date | null;
+    }
+}
+
+declare module "next-auth/jwt" {
+    interface JWT {
+        role?: Role;
+    }
+}
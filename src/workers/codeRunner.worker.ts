@@ -0,0 +1,169 @@
+import { transform } from "sucrase";
+import { previewValue } from "@/lib/codingChallenge";
+import type { RunnerMessage, RunRequest } from "@/lib/codeRunner";
+
+// Runs one answer against its tests' arguments, off the main thread, and sends back what it
+// returned. Checking against the expected values happens on the page, out of the answer's
+// reach. Every run gets a fresh worker that codeRunner.ts terminates when it's done or out of
+// time, so nothing here cleans up after itself.
+
+interface WorkerScope {
+    postMessage(message: RunnerMessage): void;
+    addEventListener(type: "message", listener: (event: MessageEvent<RunRequest>) => void): void;
+}
+
+const scope = self as unknown as WorkerScope;
+const reply = scope.postMessage.bind(scope);
+
+// Answers have no business reaching the network, storage or the page that started them. Most
+// of these live on the global scope's prototypes, so every level of the chain loses them.
+const BLOCKED_GLOBALS = [
+    "fetch",
+    "XMLHttpRequest",
+    "WebSocket",
+    "WebSocketStream",
+    "WebTransport",
+    "EventSource",
+    "RTCPeerConnection",
+    "navigator", // sendBeacon, serviceWorker and storage where the browser has them
+    "importScripts",
+    "indexedDB",
+    "caches",
+    "Worker",
+    "SharedWorker",
+    "BroadcastChannel",
+    "MessageChannel",
+    "Notification",
+    "postMessage",
+    "close",
+    "eval",
+    "Function",
+];
+
+// Compiling needs the Function constructor, so it's kept before it goes
+const createFunction = Function;
+
+for (let target: object | null = self; target; target = Object.getPrototypeOf(target)) {
+    for (const name of BLOCKED_GLOBALS) {
+        if (!Object.hasOwn(target, name)) continue;
+        try {
+            Object.defineProperty(target, name, { value: undefined, configurable: false });
+        } catch {
+            // Locked by the browser
+        }
+    }
+    // Timers take a string of code too
+    for (const name of ["setTimeout", "setInterval"]) {
+        const timer = Object.hasOwn(target, name)
+            ? (target as Record<string, (...args: unknown[]) => number>)[name]
+            : undefined;
+        if (!timer) continue;
+        Object.defineProperty(target, name, {
+            value: (handler: unknown, ...rest: unknown[]) => {
+                if (typeof handler !== "function") throw new TypeError(`${name} needs a function`);
+                return timer.call(self, handler, ...rest);
+            },
+            configurable: false,
+        });
+    }
+}
+
+// Without code from strings, import() can only be written into the answer itself, and
+// compiling turns that into a require() that throws
+for (const fn of [function () {}, async function () {}, function* () {}, async function* () {}]) {
+    Object.defineProperty(Object.getPrototypeOf(fn), "constructor", {
+        value: undefined,
+        configurable: false,
+    });
+}
+
+const MAX_LOG_LINES = 50;
+
+// Heap growth allowed over what the worker used before the answer ran. Browsers can't cap a
+// worker's memory, so this only applies where Chrome exposes performance.memory, and only
+// between tests; within a test, or elsewhere, the time limit is what stops runaway allocation.
+const MEMORY_LIMIT_BYTES = 128 * 1024 * 1024;
+
+const usedHeap = () =>
+    (performance as Performance & { memory?: { usedJSHeapSize: number } }).memory?.usedJSHeapSize;
+
+const errorMessage = (error: unknown) =>
+    error instanceof Error ? `${error.name}: ${error.message}` : String(error);
+
+// Module syntax becomes CommonJS so `export function` and stray imports don't fail to parse
+function compile(request: RunRequest, logs: string[]): (...args: unknown[]) => unknown {
+    const { code } = transform(request.code, {
+        transforms: request.language === "typescript" ? ["typescript", "imports"] : ["imports"],
+    });
+
+    const log = (...values: unknown[]) => {
+        if (logs.length < MAX_LOG_LINES) {
+            logs.push(values.map((v) => (typeof v === "string" ? v : previewValue(v))).join(" "));
+        }
+    };
+    const sandboxConsole = { log, info: log, warn: log, error: log, debug: log };
+    const require = (name: string) => {
+        throw new Error(`Imports aren't available here (tried to import "${name}")`);
+    };
+
+    const factory = createFunction(
+        "exports",
+        "module",
+        "require",
+        "console",
+        `"use strict";\n${code}\nreturn typeof ${request.entryPoint} === "function" ? ${request.entryPoint} : exports.${request.entryPoint};`
+    );
+    const exports = {};
+    const entry = factory(exports, { exports }, require, sandboxConsole);
+    if (typeof entry !== "function") {
+        throw new Error(`Define a function named ${request.entryPoint}`);
+    }
+    return entry;
+}
+
+scope.addEventListener("message", async (event) => {
+    const request = event.data;
+    const { runId } = request;
+    const logs: string[] = [];
+
+    let entry: (...args: unknown[]) => unknown;
+    try {
+        entry = compile(request, logs);
+    } catch (error) {
+        reply({ type: "compile-error", runId, error: errorMessage(error), logs });
+        return;
+    }
+
+    const baseline = usedHeap();
+    for (const args of request.args) {
+        const started = performance.now();
+        try {
+            // Answers may mutate their arguments; each test gets its own copy
+            const actual = await entry(...structuredClone(args));
+            const durationMs = performance.now() - started;
+            try {
+                reply({ type: "result", runId, actual, error: null, durationMs });
+            } catch {
+                // Functions, symbols and the like can't leave the worker
+                reply({
+                    type: "result",
+                    runId,
+                    actual: null,
+                    error: `Returned a value that can't be checked: ${previewValue(actual)}`,
+                    durationMs,
+                });
+            }
+        } catch (error) {
+            const durationMs = performance.now() - started;
+            reply({ type: "result", runId, actual: null, error: errorMessage(error), durationMs });
+        }
+
+        const heap = usedHeap();
+        if (baseline !== undefined && heap !== undefined && heap - baseline > MEMORY_LIMIT_BYTES) {
+            reply({ type: "memory-limit", runId, logs });
+            return;
+        }
+    }
+
+    reply({ type: "done", runId, logs });
+});